@@ -0,0 +1,208 @@
+import type { GitHubCommentConfig } from "./comments.js";
+
+// Commit object as returned by the REST API (pull request commits, compare)
+export interface GitHubCommit {
+	sha: string;
+	html_url: string;
+	commit: {
+		message: string;
+		author: {
+			name: string;
+			email?: string;
+			date?: string;
+		} | null;
+	};
+	author: {
+		login: string;
+	} | null;
+	parents: { sha: string }[];
+}
+
+const API_BASE = "https://api.github.com";
+const PER_PAGE = 100;
+// Upper bound on followed pages, keeps a single webhook within the Worker subrequest limit
+const MAX_PAGES = 10;
+
+async function githubGet(config: GitHubCommentConfig, url: string): Promise<Response> {
+	const response = await fetch(url, {
+		method: "GET",
+		headers: {
+			Accept: "application/vnd.github+json",
+			Authorization: `Bearer ${config.token}`,
+			"X-GitHub-Api-Version": "2022-11-28",
+			"User-Agent": "ghoodoo",
+		},
+	});
+
+	if (!response.ok) {
+		const text = await response.text();
+		throw new Error(`GitHub API error: ${response.status} ${text}`);
+	}
+
+	return response;
+}
+
+function nextPageUrl(response: Response): string | null {
+	const link = response.headers.get("link");
+	const match = link?.match(/<([^>]+)>;\s*rel="next"/);
+	return match ? match[1] : null;
+}
+
+// Follows the Link header until the last page, collecting the items extracted from each page
+async function paginate<T>(
+	config: GitHubCommentConfig,
+	url: string,
+	extract: (page: unknown) => T[],
+): Promise<T[]> {
+	const items: T[] = [];
+	let next: string | null = url;
+
+	for (let page = 0; next && page < MAX_PAGES; page++) {
+		const response = await githubGet(config, next);
+		items.push(...extract(await response.json()));
+		next = nextPageUrl(response);
+	}
+
+	if (next) {
+		console.warn(`GitHub pagination stopped after ${MAX_PAGES} pages: ${url}`);
+	}
+
+	return items;
+}
+
+// Commits of a pull request, oldest first (GitHub returns at most 250)
+export async function listPullRequestCommits(
+	config: GitHubCommentConfig,
+	owner: string,
+	repo: string,
+	prNumber: number,
+): Promise<GitHubCommit[]> {
+	return paginate(
+		config,
+		`${API_BASE}/repos/${owner}/${repo}/pulls/${prNumber}/commits?per_page=${PER_PAGE}`,
+		(page) => page as GitHubCommit[],
+	);
+}
+
+// Commits reachable from head but not from base, oldest first. For diverged refs (force pushes)
+// the range starts at the merge base.
+export async function compareCommits(
+	config: GitHubCommentConfig,
+	owner: string,
+	repo: string,
+	base: string,
+	head: string,
+): Promise<GitHubCommit[]> {
+	return paginate(
+		config,
+		`${API_BASE}/repos/${owner}/${repo}/compare/${base}...${head}?per_page=${PER_PAGE}`,
+		(page) => (page as { commits: GitHubCommit[] }).commits,
+	);
+}
+
+export interface GitHubPullRequest {
+	number: number;
+	title: string;
+	body: string | null;
+	html_url: string;
+	state: string; // open or closed
+	merged_at: string | null;
+	head: {
+		ref: string;
+	};
+}
+
+export async function getCommit(
+	config: GitHubCommentConfig,
+	owner: string,
+	repo: string,
+	sha: string,
+): Promise<GitHubCommit> {
+	const response = await githubGet(config, `${API_BASE}/repos/${owner}/${repo}/commits/${sha}`);
+	return (await response.json()) as GitHubCommit;
+}
+
+export async function getPullRequest(
+	config: GitHubCommentConfig,
+	owner: string,
+	repo: string,
+	prNumber: number,
+): Promise<GitHubPullRequest> {
+	const response = await githubGet(config, `${API_BASE}/repos/${owner}/${repo}/pulls/${prNumber}`);
+	return (await response.json()) as GitHubPullRequest;
+}
+
+// Pull requests a commit belongs to: the PR it was merged from, or open PRs containing it
+export async function listCommitPullRequests(
+	config: GitHubCommentConfig,
+	owner: string,
+	repo: string,
+	sha: string,
+): Promise<GitHubPullRequest[]> {
+	return paginate(
+		config,
+		`${API_BASE}/repos/${owner}/${repo}/commits/${sha}/pulls?per_page=${PER_PAGE}`,
+		(page) => page as GitHubPullRequest[],
+	);
+}
+
+export interface GitHubRelease {
+	tag_name: string;
+	name: string | null;
+	html_url: string;
+	draft: boolean;
+	prerelease: boolean;
+	published_at: string | null;
+}
+
+// Releases of a repository, newest first
+export async function listReleases(
+	config: GitHubCommentConfig,
+	owner: string,
+	repo: string,
+): Promise<GitHubRelease[]> {
+	return paginate(
+		config,
+		`${API_BASE}/repos/${owner}/${repo}/releases?per_page=${PER_PAGE}`,
+		(page) => page as GitHubRelease[],
+	);
+}
+
+export interface GitHubDeployment {
+	id: number;
+	sha: string;
+	ref: string;
+	environment: string;
+}
+
+export interface GitHubDeploymentStatus {
+	state: string; // success, failure, error, inactive, in_progress, queued, pending
+}
+
+// Latest deployments to an environment, newest first (first page only)
+export async function listDeployments(
+	config: GitHubCommentConfig,
+	owner: string,
+	repo: string,
+	environment: string,
+): Promise<GitHubDeployment[]> {
+	const response = await githubGet(
+		config,
+		`${API_BASE}/repos/${owner}/${repo}/deployments?environment=${encodeURIComponent(environment)}&per_page=${PER_PAGE}`,
+	);
+	return (await response.json()) as GitHubDeployment[];
+}
+
+// Statuses of a deployment, newest first
+export async function listDeploymentStatuses(
+	config: GitHubCommentConfig,
+	owner: string,
+	repo: string,
+	deploymentId: number,
+): Promise<GitHubDeploymentStatus[]> {
+	return paginate(
+		config,
+		`${API_BASE}/repos/${owner}/${repo}/deployments/${deploymentId}/statuses?per_page=${PER_PAGE}`,
+		(page) => page as GitHubDeploymentStatus[],
+	);
+}
@@ -0,0 +1,179 @@
+import type { OdooClient } from "../odoo/client.js";
+import { formatTaskKey, hasSkipDirective } from "../parser/references.js";
+import type { CheckRunKey, CheckStore } from "../store/checks.js";
+import { type GitHubPullRequest, listCommitPullRequests } from "./api.js";
+import type { GitHubCommentConfig } from "./comments.js";
+import { escapeHtml, GH_ICON, type ProcessResult, parsePullRequestReferences } from "./events.js";
+
+interface CheckRepository {
+	full_name: string;
+	html_url: string;
+}
+
+export interface WorkflowRunEvent {
+	action: string;
+	workflow_run: {
+		name: string;
+		head_sha: string;
+		conclusion: string | null;
+		html_url: string;
+	};
+	repository: CheckRepository;
+}
+
+export interface CheckSuiteEvent {
+	action: string;
+	check_suite: {
+		head_sha: string;
+		conclusion: string | null;
+		app: {
+			slug: string;
+			name: string;
+		};
+	};
+	repository: CheckRepository;
+}
+
+// A completed CI run, whichever event reported it
+interface CompletedRun {
+	name: string;
+	sha: string;
+	conclusion: string;
+	url: string;
+}
+
+const CONCLUSION_LABELS: Record<string, string> = {
+	success: "✅ passed",
+	failure: "❌ failed",
+	startup_failure: "❌ failed to start",
+	timed_out: "⏱️ timed out",
+	cancelled: "⚪ cancelled",
+	action_required: "⚠️ needs action",
+};
+
+// Open PRs whose head is the commit; fork PRs are missing from the run payload, so ask GitHub.
+// PRs with [skip odoo] in the title are left out.
+async function findOpenPullRequests(
+	sha: string,
+	repository: string,
+	githubConfig: GitHubCommentConfig,
+): Promise<GitHubPullRequest[]> {
+	const [owner, repo] = repository.split("/");
+	const prs = await listCommitPullRequests(githubConfig, owner, repo, sha);
+	return prs.filter((pr) => pr.state === "open" && !hasSkipDirective(pr.title));
+}
+
+async function mirrorCompletedRun(
+	run: CompletedRun,
+	repository: CheckRepository,
+	odoo: OdooClient,
+	githubConfig: GitHubCommentConfig | null,
+	checks: CheckStore | undefined,
+): Promise<ProcessResult> {
+	const result: ProcessResult = { processed: 0, errors: [] };
+	const label = CONCLUSION_LABELS[run.conclusion];
+
+	// Skipped, neutral and stale runs say nothing about the change
+	if (!label) {
+		return result;
+	}
+
+	if (!githubConfig) {
+		result.errors.push(`${run.name}: GITHUB_TOKEN required to find the PRs of ${run.sha}`);
+		return result;
+	}
+
+	const key: CheckRunKey = { repository: repository.full_name, sha: run.sha, workflow: run.name };
+	if ((await checks?.getConclusion(key)) === run.conclusion) {
+		console.info(`${run.name} ${run.conclusion} on ${run.sha.substring(0, 7)}: already noted`);
+		return result;
+	}
+
+	let prs: GitHubPullRequest[];
+	try {
+		prs = await findOpenPullRequests(run.sha, repository.full_name, githubConfig);
+	} catch (error) {
+		const msg = `GitHub PR lookup failed: ${error instanceof Error ? error.message : "Unknown error"}`;
+		console.error(msg);
+		result.errors.push(msg);
+		return result;
+	}
+
+	const shortSha = run.sha.substring(0, 7);
+	for (const pr of prs) {
+		const refs = parsePullRequestReferences(pr, odoo);
+		console.info(
+			`PR #${pr.number} ${run.name} ${run.conclusion} refs=${
+				refs.map((r) => `${r.action}:${formatTaskKey(r)}`).join(",") || "none"
+			}`,
+		);
+
+		const message = `${GH_ICON} <a href="${run.url}">${escapeHtml(run.name)}</a> ${label} on PR <a href="${pr.html_url}">#${pr.number}</a> (<a href="${repository.html_url}/commit/${run.sha}">${shortSha}</a>)`;
+		for (const ref of refs) {
+			const taskKey = formatTaskKey(ref);
+			try {
+				const task = await odoo.findTask(ref);
+				if (!task) {
+					result.errors.push(`${taskKey}: Task not found`);
+					continue;
+				}
+
+				await odoo.addMessage(task.id, message);
+				result.processed++;
+			} catch (error) {
+				const msg = `${taskKey}: ${error instanceof Error ? error.message : "Unknown error"}`;
+				console.error(msg);
+				result.errors.push(msg);
+			}
+		}
+	}
+
+	await checks?.saveConclusion(key, run.conclusion);
+	return result;
+}
+
+export async function handleWorkflowRunEvent(
+	event: WorkflowRunEvent,
+	odoo: OdooClient,
+	githubConfig: GitHubCommentConfig | null,
+	checks?: CheckStore,
+): Promise<ProcessResult> {
+	const { workflow_run: run } = event;
+	if (event.action !== "completed" || !run.conclusion) {
+		return { processed: 0, errors: [] };
+	}
+
+	return mirrorCompletedRun(
+		{ name: run.name, sha: run.head_sha, conclusion: run.conclusion, url: run.html_url },
+		event.repository,
+		odoo,
+		githubConfig,
+		checks,
+	);
+}
+
+export async function handleCheckSuiteEvent(
+	event: CheckSuiteEvent,
+	odoo: OdooClient,
+	githubConfig: GitHubCommentConfig | null,
+	checks?: CheckStore,
+): Promise<ProcessResult> {
+	const { check_suite: suite } = event;
+	// GitHub Actions suites are reported per workflow by workflow_run
+	if (event.action !== "completed" || !suite.conclusion || suite.app.slug === "github-actions") {
+		return { processed: 0, errors: [] };
+	}
+
+	return mirrorCompletedRun(
+		{
+			name: suite.app.name,
+			sha: suite.head_sha,
+			conclusion: suite.conclusion,
+			url: `${event.repository.html_url}/commit/${suite.head_sha}/checks`,
+		},
+		event.repository,
+		odoo,
+		githubConfig,
+		checks,
+	);
+}
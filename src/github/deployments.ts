@@ -0,0 +1,142 @@
+import type { OdooClient } from "../odoo/client.js";
+import type { StageEventFacts } from "../odoo/rules.js";
+import { formatTaskKey, type TaskReference } from "../parser/references.js";
+import {
+	compareCommits,
+	type GitHubDeployment,
+	listDeploymentStatuses,
+	listDeployments,
+} from "./api.js";
+import type { GitHubCommentConfig } from "./comments.js";
+import { escapeHtml, GH_ICON, type ProcessResult, parseCommitListReferences } from "./events.js";
+import { noteShippedTasks } from "./releases.js";
+
+export interface DeploymentStatusEvent {
+	action: string;
+	deployment_status: {
+		state: string; // success, failure, error, inactive, in_progress, queued, pending
+		environment: string;
+		environment_url?: string;
+		target_url?: string;
+		creator: {
+			login: string;
+		};
+	};
+	deployment: GitHubDeployment;
+	repository: {
+		full_name: string;
+		html_url: string;
+	};
+}
+
+// Older deployments whose statuses are checked; each check is one subrequest
+const MAX_DEPLOYMENT_LOOKUPS = 10;
+
+// The latest earlier deployment to the same environment that succeeded
+async function findPreviousDeployment(
+	githubConfig: GitHubCommentConfig,
+	owner: string,
+	repo: string,
+	deployment: GitHubDeployment,
+): Promise<GitHubDeployment | null> {
+	const earlier = (await listDeployments(githubConfig, owner, repo, deployment.environment)).filter(
+		(candidate) => candidate.id < deployment.id,
+	);
+
+	for (const candidate of earlier.slice(0, MAX_DEPLOYMENT_LOOKUPS)) {
+		const statuses = await listDeploymentStatuses(githubConfig, owner, repo, candidate.id);
+		if (statuses.some((status) => status.state === "success")) {
+			return candidate;
+		}
+	}
+
+	if (earlier.length > MAX_DEPLOYMENT_LOOKUPS) {
+		console.warn(
+			`No successful deployment to ${deployment.environment} among the last ${MAX_DEPLOYMENT_LOOKUPS}`,
+		);
+	}
+	return null;
+}
+
+// Tasks referenced by the commits deployed since the previous successful deployment
+async function collectDeploymentReferences(
+	event: DeploymentStatusEvent,
+	githubConfig: GitHubCommentConfig,
+	odoo: OdooClient,
+): Promise<TaskReference[]> {
+	const { deployment } = event;
+	const [owner, repo] = event.repository.full_name.split("/");
+
+	const previous = await findPreviousDeployment(githubConfig, owner, repo, deployment);
+	if (!previous) {
+		console.info(`Deployment to ${deployment.environment}: no previous deployment to compare with`);
+		return [];
+	}
+	if (previous.sha === deployment.sha) {
+		return [];
+	}
+
+	const commits = await compareCommits(githubConfig, owner, repo, previous.sha, deployment.sha);
+	console.info(
+		`Deployment to ${deployment.environment}: ${commits.length} commit(s) since ${previous.sha.substring(0, 7)}`,
+	);
+	return parseCommitListReferences(commits, odoo);
+}
+
+export async function handleDeploymentStatusEvent(
+	event: DeploymentStatusEvent,
+	odoo: OdooClient,
+	githubConfig: GitHubCommentConfig | null,
+): Promise<ProcessResult> {
+	const result: ProcessResult = { processed: 0, errors: [] };
+	const { deployment, deployment_status: status } = event;
+	const environment = status.environment || deployment.environment;
+
+	if (status.state !== "success") {
+		return result;
+	}
+
+	if (!githubConfig) {
+		result.errors.push(`Deployment to ${environment}: GITHUB_TOKEN required to list its commits`);
+		return result;
+	}
+
+	let refs: TaskReference[];
+	try {
+		refs = await collectDeploymentReferences(event, githubConfig, odoo);
+	} catch (error) {
+		const msg = `GitHub compare failed: ${error instanceof Error ? error.message : "Unknown error"}`;
+		console.error(msg);
+		result.errors.push(msg);
+		return result;
+	}
+
+	const context = `Deployment to ${environment}`;
+	console.info(
+		`${context} refs=${refs.map((r) => `${r.action}:${formatTaskKey(r)}`).join(",") || "none"}`,
+	);
+
+	const shortSha = deployment.sha.substring(0, 7);
+	const environmentUrl = status.environment_url || status.target_url;
+	const environmentLabel = environmentUrl
+		? `<a href="${environmentUrl}">${escapeHtml(environment)}</a>`
+		: escapeHtml(environment);
+	const message = `${GH_ICON} Deployed to ${environmentLabel} (<a href="${event.repository.html_url}/commit/${deployment.sha}">${shortSha}</a>)`;
+	const facts: StageEventFacts = {
+		event: "deployment",
+		action: status.state,
+		branch: deployment.ref,
+		environment,
+		repository: event.repository.full_name,
+	};
+
+	await noteShippedTasks(
+		refs,
+		{ message, authorIdentifier: status.creator.login, context },
+		facts,
+		odoo,
+		result,
+	);
+
+	return result;
+}
@@ -1,30 +1,77 @@
 import type { OdooClient, StageRef } from "../odoo/client.js";
-import { parseReferences, type TaskReference } from "../parser/references.js";
+import { describeRule, findStageRule, matchesGlob, type StageEventFacts } from "../odoo/rules.js";
+import type { OdooTask, TaskPriority } from "../odoo/types.js";
+import {
+	formatTaskKey,
+	hasSkipDirective,
+	mergeReferences,
+	parseBranchReferences,
+	parseDuration,
+	parseMessageReferences,
+	parseSmartCommands,
+	type ReferenceAction,
+	type SmartCommand,
+	type TaskReference,
+} from "../parser/references.js";
+import { parseRevert, parseRevertedTitle, type Revert } from "../parser/reverts.js";
+import type { LinkStore, PullRequestLink } from "../store/links.js";
+import {
+	compareCommits,
+	type GitHubCommit,
+	getCommit,
+	getPullRequest,
+	listCommitPullRequests,
+	listPullRequestCommits,
+} from "./api.js";
 import { type GitHubCommentConfig, postPRComment } from "./comments.js";
 
 // GitHub icon - using their fluidicon which has colored background for both themes
-const GH_ICON = `<img src="https://github.com/fluidicon.png" width="16" height="16" style="vertical-align: middle; margin-right: 4px; border-radius: 3px;">`;
+export const GH_ICON = `<img src="https://github.com/fluidicon.png" width="16" height="16" style="vertical-align: middle; margin-right: 4px; border-radius: 3px;">`;
+
+// Relationship declared by the reference keyword, shown next to the chatter link
+const RELATIONSHIP_LABELS: Record<ReferenceAction, string | null> = {
+	close: "closes",
+	part: "part of",
+	related: "related to",
+	ref: null,
+};
+
+export interface PushCommit {
+	id: string;
+	message: string;
+	url: string;
+	timestamp?: string;
+	distinct?: boolean; // false when the commit was already pushed to another branch
+	author: {
+		name: string;
+		email?: string;
+		username?: string;
+	};
+}
 
 export interface PushEvent {
 	ref: string;
+	before?: string; // all zeros when the branch was created
+	after?: string; // all zeros when the branch was deleted
+	forced?: boolean;
+	deleted?: boolean;
 	repository: {
 		full_name: string;
 		html_url: string;
+		default_branch?: string;
 	};
-	commits: Array<{
-		id: string;
-		message: string;
-		url: string;
-		author: {
-			name: string;
-			email?: string;
-			username?: string;
-		};
-	}>;
+	commits: PushCommit[];
 }
 
 export interface PullRequestEvent {
 	action: string;
+	before?: string; // synchronize: head SHA before the push
+	after?: string; // synchronize: head SHA after the push
+	changes?: {
+		// edited: previous values of the changed fields
+		title?: { from: string };
+		body?: { from: string | null };
+	};
 	pull_request: {
 		number: number;
 		title: string;
@@ -32,6 +79,15 @@ export interface PullRequestEvent {
 		html_url: string;
 		merged: boolean;
 		draft: boolean;
+		head: {
+			ref: string;
+		};
+		base: {
+			ref: string;
+		};
+		labels?: {
+			name: string;
+		}[];
 		user: {
 			login: string;
 			email?: string;
@@ -46,6 +102,17 @@ export interface PullRequestEvent {
 	};
 }
 
+export interface PushOptions {
+	closeBranches?: string[]; // Globs of branches closing tasks besides the default branch
+	referenceBranches?: string[]; // Globs of branches linking tasks; defaults to all branches
+	links?: LinkStore; // Leave tasks with open closing PRs to those PRs
+}
+
+export interface PullRequestOptions {
+	scanCommitsOnSync?: boolean; // Link tasks referenced by commits pushed to an open PR
+	links?: LinkStore; // Track PR links so a task only closes once all its closing PRs are done
+}
+
 export interface ProcessResult {
 	processed: number;
 	errors: string[];
@@ -53,141 +120,986 @@ export interface ProcessResult {
 
 interface CommitReference {
 	ref: TaskReference;
+	sha: string;
 	shortSha: string;
 	commitUrl: string;
 	commitTitle: string;
+	authorName: string;
 	authorEmail?: string;
 }
 
-export async function handlePushEvent(event: PushEvent, odoo: OdooClient): Promise<ProcessResult> {
+// Every commit of a push referencing one task, in push order
+interface TaskCommitReferences {
+	lead: CommitReference; // Strongest reference; decides the stage change and message author
+	commits: CommitReference[];
+}
+
+// Keep the strongest relationship, attributed to the latest commit declaring it; a commit whose
+// trailer declared the relationship is preferred over one that only mentioned it in free text
+function shouldReplaceCommitReference(existing: TaskReference, ref: TaskReference): boolean {
+	const strongest = mergeReferences([existing], [ref])[0];
+	if (ref.action === "ref" || strongest.action !== ref.action) {
+		return false;
+	}
+	if (ref.action !== existing.action) {
+		return true;
+	}
+	return ref.source === "trailer" || existing.source !== "trailer";
+}
+
+// PR actions whose webhook name reads badly in a chatter note
+const ACTION_LABELS: Record<string, string> = {
+	synchronize: "new commits",
+	converted_to_draft: "back to draft",
+};
+
+// Where smart commands came from, for chatter notes and timesheet descriptions
+interface SmartCommandSource {
+	label: string; // Plain text, e.g. "commit abc1234" or "PR #42"
+	link: string; // HTML, e.g. commit <a href="…">abc1234</a>
+	authorIdentifier?: string;
+	date: string; // YYYY-MM-DD
+	defaultDescription: string;
+}
+
+const PRIORITY_VALUES: Record<string, TaskPriority> = {
+	high: "1",
+	urgent: "1",
+	"1": "1",
+	normal: "0",
+	low: "0",
+	"0": "0",
+};
+
+export function escapeHtml(value: string): string {
+	return value
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+}
+
+// Applies one command to a resolved task; returns the chatter note describing the change, if any
+async function applySmartCommand(
+	command: SmartCommand,
+	task: OdooTask,
+	source: SmartCommandSource,
+	odoo: OdooClient,
+): Promise<string | null> {
+	switch (command.name) {
+		case "time": {
+			const duration = parseDuration(command.args);
+			if (!duration) {
+				throw new Error(`Invalid #time duration in ${source.label}`);
+			}
+			const user = source.authorIdentifier ? await odoo.resolveUser(source.authorIdentifier) : null;
+			if (!user) {
+				throw new Error(
+					`No Odoo user for ${source.authorIdentifier ?? "unknown author"}, time not logged`,
+				);
+			}
+			const employeeId = await odoo.getEmployeeIdForUser(user.id);
+			if (employeeId === null) {
+				throw new Error(`No employee linked to Odoo user ${user.login}`);
+			}
+			await odoo.createTimesheet({
+				taskId: task.id,
+				projectId: task.project_id ? task.project_id[0] : undefined,
+				employeeId,
+				hours: duration.hours,
+				description: `${duration.rest || source.defaultDescription} (${source.label})`,
+				date: source.date,
+			});
+			console.info(`Logged ${duration.hours}h on task ${task.id} from ${source.label}`);
+			// Timesheet lines show up on the task already
+			return null;
+		}
+		case "tag": {
+			const names = command.args
+				.split(",")
+				.map((name) => name.trim())
+				.filter(Boolean);
+			const tagIds: number[] = [];
+			for (const name of names) {
+				const tagId = await odoo.resolveTagId(name);
+				if (tagId === null) {
+					throw new Error(`Tag not found: ${name}`);
+				}
+				tagIds.push(tagId);
+			}
+			if (tagIds.length === 0) {
+				throw new Error(`Missing #tag name in ${source.label}`);
+			}
+			await odoo.addTaskTags(task.id, tagIds);
+			return `Tag ${names.map((name) => `<b>${escapeHtml(name)}</b>`).join(", ")} added`;
+		}
+		case "priority": {
+			const value = command.args.split(/\s+/)[0].toLowerCase();
+			const priority = PRIORITY_VALUES[value];
+			if (!priority) {
+				throw new Error(`Invalid #priority "${value}" in ${source.label} (use high or normal)`);
+			}
+			await odoo.setTaskPriority(task.id, priority);
+			return `Priority set to <b>${priority === "1" ? "high" : "normal"}</b>`;
+		}
+		case "assign": {
+			const login = command.args.split(/\s+/)[0].replace(/^@/, "");
+			const user = login ? await odoo.resolveUser(login) : null;
+			if (!user) {
+				throw new Error(`No Odoo user for @${login}, task not assigned`);
+			}
+			await odoo.assignTask(task.id, user.id);
+			return `Assigned to <b>${escapeHtml(user.name || user.login)}</b>`;
+		}
+		case "deadline": {
+			const date = command.args.split(/\s+/)[0];
+			if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || Number.isNaN(Date.parse(date))) {
+				throw new Error(`Invalid #deadline "${date}" in ${source.label} (use YYYY-MM-DD)`);
+			}
+			await odoo.setTaskDeadline(task.id, date);
+			return `Deadline set to <b>${date}</b>`;
+		}
+	}
+}
+
+// Applies smart commands ("ODP-123 #time 1h30m", "#tag backend", "#assign @alice", …) to their tasks
+async function applySmartCommands(
+	commands: SmartCommand[],
+	source: SmartCommandSource,
+	odoo: OdooClient,
+	result: ProcessResult,
+): Promise<void> {
+	for (const command of commands) {
+		for (const ref of command.refs) {
+			const key = formatTaskKey(ref);
+			try {
+				const task = await odoo.findTask(ref);
+				if (!task) {
+					result.errors.push(`${key}: Task not found`);
+					continue;
+				}
+
+				const note = await applySmartCommand(command, task, source, odoo);
+				if (note) {
+					await odoo.addMessage(
+						task.id,
+						`${GH_ICON} ${note} by ${source.link}`,
+						source.authorIdentifier,
+					);
+				}
+				result.processed++;
+			} catch (error) {
+				const msg = `${key}: ${error instanceof Error ? error.message : "Unknown error"}`;
+				console.error(msg);
+				result.errors.push(msg);
+			}
+		}
+	}
+}
+
+// GitHub lists at most this many commits in a push payload
+const PUSH_PAYLOAD_COMMIT_LIMIT = 20;
+const NULL_SHA_PATTERN = /^0+$/;
+
+function toPushCommit(commit: GitHubCommit): PushCommit {
+	return {
+		id: commit.sha,
+		message: commit.commit.message,
+		url: commit.html_url,
+		timestamp: commit.commit.author?.date,
+		author: {
+			name: commit.commit.author?.name ?? commit.author?.login ?? "unknown",
+			email: commit.commit.author?.email,
+			username: commit.author?.login,
+		},
+	};
+}
+
+// GitHub's title for squash merges: "Add login (#12)"
+const SQUASH_TITLE_PATTERN = /\(#(\d+)\)$/;
+
+// The number of the merged PR a commit was copied from, by its squash title or, with a
+// token, by GitHub's PR lookup
+async function findMergedPullRequest(
+	sha: string,
+	title: string,
+	repository: string,
+	githubConfig: GitHubCommentConfig | null,
+	result: ProcessResult,
+): Promise<number | null> {
+	const squash = title.trim().match(SQUASH_TITLE_PATTERN);
+	if (squash) {
+		return Number(squash[1]);
+	}
+	if (!githubConfig) {
+		return null;
+	}
+
+	try {
+		const [owner, repo] = repository.split("/");
+		const pulls = await listCommitPullRequests(githubConfig, owner, repo, sha);
+		return pulls.find((pr) => pr.merged_at)?.number ?? null;
+	} catch (error) {
+		result.errors.push(
+			`GitHub PR lookup failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+		);
+		return null;
+	}
+}
+
+// Squash and rebase merges copy a PR's commits under new SHAs, so they count as new to the
+// branch. Their commands already ran when the originals were pushed to the PR branch.
+async function isMergedCopy(
+	commit: PushCommit,
+	repository: string,
+	githubConfig: GitHubCommentConfig | null,
+	result: ProcessResult,
+): Promise<boolean> {
+	const title = commit.message.split("\n")[0];
+	return (await findMergedPullRequest(commit.id, title, repository, githubConfig, result)) !== null;
+}
+
+// The full list of pushed commits. Truncated payloads and payloads with already-known commits
+// are completed from the compare API; payload entries are kept so their distinct flag survives.
+// Commits only the comparison lists may come from a merged branch, so they count as already seen.
+async function collectPushCommits(
+	event: PushEvent,
+	githubConfig: GitHubCommentConfig | null,
+	result: ProcessResult,
+): Promise<PushCommit[]> {
+	const truncated = event.commits.length >= PUSH_PAYLOAD_COMMIT_LIMIT;
+	if (!truncated && !event.commits.some((commit) => commit.distinct === false)) {
+		return event.commits;
+	}
+
+	// A new branch has no previous head to compare against
+	if (!githubConfig || !event.before || !event.after || NULL_SHA_PATTERN.test(event.before)) {
+		if (truncated) {
+			console.warn(
+				`Push to ${event.ref} may be truncated at ${event.commits.length} commits, not compared`,
+			);
+		}
+		return event.commits;
+	}
+
+	try {
+		const [owner, repo] = event.repository.full_name.split("/");
+		const compared = await compareCommits(githubConfig, owner, repo, event.before, event.after);
+		const payloadCommits = new Map(event.commits.map((commit) => [commit.id, commit]));
+		return compared.map(
+			(commit) => payloadCommits.get(commit.sha) ?? { ...toPushCommit(commit), distinct: false },
+		);
+	} catch (error) {
+		result.errors.push(
+			`GitHub compare failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+		);
+		return event.commits;
+	}
+}
+
+export async function handlePushEvent(
+	event: PushEvent,
+	odoo: OdooClient,
+	githubConfig: GitHubCommentConfig | null = null,
+	options: PushOptions = {},
+): Promise<ProcessResult> {
 	const result: ProcessResult = { processed: 0, errors: [] };
-	const allReferences = new Map<number, CommitReference>();
+	const allReferences = new Map<string, TaskCommitReferences>();
+
+	if (event.deleted) {
+		return result;
+	}
+
+	// Tags point at commits already pushed to a branch
+	if (event.ref.startsWith("refs/tags/")) {
+		console.info(`Ignoring tag push ${event.ref}`);
+		return result;
+	}
+
+	const branch = event.ref.replace(/^refs\/heads\//, "");
+	const closes = isClosingBranch(branch, event.repository.default_branch, options);
+	if (!closes && options.referenceBranches && !matchesGlob(branch, options.referenceBranches)) {
+		console.info(`Ignoring push to ${event.ref}: not a reference branch`);
+		return result;
+	}
+
+	// A force push rewrites commits that were already processed when first pushed: they are
+	// linked again under their new SHA, but their commands and close keywords are not re-applied
+	const forced = event.forced === true;
+	if (forced) {
+		console.info(`Force push to ${event.ref}: skipping smart commands and task closing`);
+	}
+
+	const commits = await collectPushCommits(event, githubConfig, result);
+	// A task branch links every commit pushed to it, even without a key in the message
+	const branchRefs = parseBranchReferences(event.ref, odoo.parserOptions);
+	const reverts: { commit: PushCommit; revert: Revert }[] = [];
+	const facts: StageEventFacts = {
+		event: "push",
+		branch,
+		repository: event.repository.full_name,
+	};
+
+	for (const commit of commits) {
+		if (hasSkipDirective(commit.message)) {
+			console.info(`Skipping commit ${commit.id.substring(0, 7)}: [skip odoo] directive`);
+			continue;
+		}
+
+		const [commitTitle, ...bodyLines] = commit.message.split("\n");
+		const shortSha = commit.id.substring(0, 7);
+		const revert = parseRevert(commitTitle, bodyLines.join("\n"));
+		// Reverts merged from a PR reopen their tasks when the PR merges, not again on landing
+		if (
+			revert &&
+			!forced &&
+			closes &&
+			commit.distinct !== false &&
+			!(await isMergedCopy(commit, event.repository.full_name, githubConfig, result))
+		) {
+			reverts.push({ commit, revert });
+		}
+
+		// Commits already seen on another branch had their commands applied when first pushed;
+		// a revert's quoted title would repeat the reverted commit's commands
+		const commands =
+			commit.distinct !== false && !forced && !revert
+				? parseSmartCommands(commit.message, odoo.parserOptions)
+				: [];
+		if (
+			commands.length > 0 &&
+			(await isMergedCopy(commit, event.repository.full_name, githubConfig, result))
+		) {
+			console.info(`Skipping commands of ${shortSha}: copied from a merged pull request`);
+		} else if (commands.length > 0) {
+			await applySmartCommands(
+				commands,
+				{
+					label: `commit ${shortSha}`,
+					link: `commit <a href="${commit.url}">${shortSha}</a>`,
+					authorIdentifier: commit.author.email || commit.author.username,
+					date: (commit.timestamp ?? new Date().toISOString()).slice(0, 10),
+					defaultDescription: commitTitle,
+				},
+				odoo,
+				result,
+			);
+		}
 
-	for (const commit of event.commits) {
-		const refs = parseReferences(commit.message);
+		const refs = mergeReferences(
+			parseChangeReferences(commitTitle, bodyLines.join("\n"), odoo),
+			branchRefs,
+		);
 
 		for (const ref of refs) {
-			const existing = allReferences.get(ref.taskId);
-			if (!existing || ref.action === "close") {
-				allReferences.set(ref.taskId, {
-					ref: existing?.ref.action === "close" ? existing.ref : ref,
-					shortSha: commit.id.substring(0, 7),
-					commitUrl: commit.url,
-					commitTitle: commit.message.split("\n")[0],
-					authorEmail: commit.author.email,
-				});
+			const key = formatTaskKey(ref);
+			const commitRef: CommitReference = {
+				ref,
+				sha: commit.id,
+				shortSha,
+				commitUrl: commit.url,
+				commitTitle,
+				authorName: commit.author.name,
+				authorEmail: commit.author.email,
+			};
+			const existing = allReferences.get(key);
+			if (!existing) {
+				allReferences.set(key, { lead: commitRef, commits: [commitRef] });
+				continue;
+			}
+			existing.commits.push(commitRef);
+			if (shouldReplaceCommitReference(existing.lead.ref, ref)) {
+				existing.lead = commitRef;
 			}
 		}
 	}
 
-	for (const [taskId, commitRef] of allReferences) {
-		const { ref, shortSha, commitUrl, commitTitle, authorEmail } = commitRef;
+	for (const [key, { lead, commits: taskCommits }] of allReferences) {
+		const { ref, authorEmail } = lead;
 		try {
-			const task = await odoo.getTask(taskId);
+			const task = await odoo.findTask(ref);
 			if (!task) {
-				result.errors.push(`ODP-${taskId}: Task not found`);
+				result.errors.push(`${key}: Task not found`);
 				continue;
 			}
 
-			const message = `${GH_ICON} Referenced in commit <a href="${commitUrl}">${shortSha}</a>: ${commitTitle}`;
-			await odoo.addMessage(taskId, message, authorEmail);
+			// A merged PR's close keywords also arrive with its commits: while another PR closing the
+			// task is open, the close is left to that PR's merge
+			let pending =
+				!forced && closes && ref.action === "close" && options.links
+					? (await options.links.getLinks(task.id)).filter(
+							(link) => link.action === "close" && link.state === "open",
+						)
+					: [];
+			// The PR the commit was merged from may not be marked merged yet
+			if (pending.length > 0) {
+				const own = await findMergedPullRequest(
+					lead.sha,
+					lead.commitTitle,
+					event.repository.full_name,
+					githubConfig,
+					result,
+				);
+				pending = pending.filter(
+					(link) => link.repository !== event.repository.full_name || link.number !== own,
+				);
+			}
+			await odoo.addMessage(
+				task.id,
+				`${formatCommitMessage(taskCommits, ref, forced)}${formatPendingPullRequests(
+					pending,
+					event.repository.full_name,
+				)}`,
+				authorEmail,
+			);
 
-			if (ref.action === "close") {
-				await odoo.setStage(taskId);
+			// Rewritten commits of a force push were handled when first pushed
+			if (!forced) {
+				if (ref.action === "close" && !closes) {
+					// Branch rules still apply; the close keyword counts as a plain reference
+					console.info(`Push to ${event.ref} not closing ${key}: not a closing branch`);
+					await applyStageRules(
+						task,
+						{ ...ref, action: "ref" },
+						facts,
+						odoo,
+						`Push to ${event.ref}`,
+					);
+				} else if (pending.length > 0) {
+					console.info(
+						`Push to ${event.ref} not closing ${key}: ${pending.length} closing PR(s) still open`,
+					);
+				} else {
+					await applyStageRules(task, ref, facts, odoo, `Push to ${event.ref}`);
+				}
 			}
 
 			result.processed++;
 		} catch (error) {
-			const msg = `ODP-${taskId}: ${error instanceof Error ? error.message : "Unknown error"}`;
+			const msg = `${key}: ${error instanceof Error ? error.message : "Unknown error"}`;
 			console.error(msg);
 			result.errors.push(msg);
 		}
 	}
 
+	for (const { commit, revert } of reverts) {
+		const closed = await findRevertedClosures(
+			revert,
+			event.repository.full_name,
+			githubConfig,
+			odoo,
+			result,
+		);
+		const message = `${GH_ICON} Reopened: commit <a href="${commit.url}">${commit.id.substring(0, 7)}</a> reverts ${formatRevertedChange(
+			revert,
+			event.repository.html_url,
+		)}`;
+		await reopenRevertedTasks(
+			closed,
+			message,
+			commit.author.email || commit.author.username,
+			odoo,
+			result,
+		);
+	}
+
 	return result;
 }
 
+// Close keywords take effect once the commit lands on the default branch or a release branch
+function isClosingBranch(
+	branch: string,
+	defaultBranch: string | undefined,
+	{ closeBranches }: PushOptions,
+): boolean {
+	return branch === defaultBranch || (closeBranches ? matchesGlob(branch, closeBranches) : false);
+}
+
+function formatCommitLink({ commitUrl, shortSha }: CommitReference): string {
+	return `<a href="${commitUrl}">${shortSha}</a>`;
+}
+
+// One chatter message per task and push: a single commit inline, several as a list
+function formatCommitMessage(
+	commits: CommitReference[],
+	strongest: TaskReference,
+	forced: boolean,
+): string {
+	const commitLabel = forced ? "force-pushed commit" : "commit";
+	const relationship = RELATIONSHIP_LABELS[strongest.action];
+
+	if (commits.length === 1) {
+		const [commit] = commits;
+		return `${GH_ICON} Referenced in ${commitLabel} ${formatCommitLink(commit)}${
+			relationship ? ` (${relationship})` : ""
+		}: ${escapeHtml(commit.commitTitle)}`;
+	}
+
+	const items = commits.map((commit) => {
+		const itemRelationship = RELATIONSHIP_LABELS[commit.ref.action];
+		return `<li>${formatCommitLink(commit)}${itemRelationship ? ` (${itemRelationship})` : ""}: ${escapeHtml(
+			commit.commitTitle,
+		)} by ${escapeHtml(commit.authorName)}</li>`;
+	});
+	return `${GH_ICON} Referenced in ${commits.length} ${commitLabel}s${
+		relationship ? ` (${relationship})` : ""
+	}:<ul>${items.join("")}</ul>`;
+}
+
+// Stage of the first rule matching the event and reference, or null when the task stays put
+export async function findStageMove(
+	task: OdooTask,
+	ref: TaskReference,
+	facts: StageEventFacts,
+	odoo: OdooClient,
+	context: string,
+): Promise<StageRef | null> {
+	const key = formatTaskKey(ref);
+	const projectId = task.project_id ? task.project_id[0] : null;
+	const match = findStageRule(odoo.stageRules, facts, ref.action, projectId);
+
+	if (!match) {
+		console.info(
+			`${context} no stage transition for ${key} (action=${ref.action}, event=${facts.event}${
+				facts.action ? `/${facts.action}` : ""
+			})`,
+		);
+		return null;
+	}
+
+	let stage = match.stage;
+	if (odoo.monotonicStages && !match.rule.allowBackward && task.stage_id) {
+		const stageId = await odoo.requireStage(stage, projectId);
+		if (await odoo.isBackwardMove(task.stage_id[0], stageId)) {
+			console.info(
+				`${context} not moving ${key} back from "${task.stage_id[1]}" to stage=${String(stage)} (rule ${describeRule(match.rule)})`,
+			);
+			return null;
+		}
+		stage = stageId;
+	}
+
+	console.info(
+		`${context} transitioning ${key} via rule ${describeRule(match.rule)} to stage=${String(stage)}`,
+	);
+	return stage;
+}
+
+// Moves the task to the stage of the first rule matching the event and reference
+export async function applyStageRules(
+	task: OdooTask,
+	ref: TaskReference,
+	facts: StageEventFacts,
+	odoo: OdooClient,
+	context: string,
+): Promise<void> {
+	const stage = await findStageMove(task, ref, facts, odoo, context);
+	if (stage !== null) {
+		await odoo.setStage(task.id, stage, task.project_id ? task.project_id[0] : null);
+	}
+}
+
+// A `Revert "…"` title quotes the reverted message, its keywords are not the revert's own
+function parseChangeReferences(title: string, body: string, odoo: OdooClient): TaskReference[] {
+	return parseMessageReferences(
+		parseRevertedTitle(title) === null ? title : "",
+		body,
+		odoo.parserOptions,
+	);
+}
+
+// References declared by a PR: title, description (incl. trailers) and head branch
+export function parsePullRequestReferences(
+	pr: Pick<PullRequestEvent["pull_request"], "title" | "body" | "head">,
+	odoo: OdooClient,
+): TaskReference[] {
+	return mergeReferences(
+		parseChangeReferences(pr.title, pr.body ?? "", odoo),
+		parseBranchReferences(pr.head.ref, odoo.parserOptions),
+	);
+}
+
+// References declared by a PR's own commits; merge commits only repeat other branches' messages
+export function parseCommitListReferences(
+	commits: GitHubCommit[],
+	odoo: OdooClient,
+): TaskReference[] {
+	return mergeReferences(
+		...commits
+			.filter((commit) => commit.parents.length <= 1 && !hasSkipDirective(commit.commit.message))
+			.map((commit) => {
+				const [title, ...bodyLines] = commit.commit.message.split("\n");
+				return parseChangeReferences(title, bodyLines.join("\n"), odoo);
+			}),
+	);
+}
+
+// Tasks closed by the change a revert undoes. The reverted commit is looked up with the PRs it
+// was merged from; without a token (or if the lookup fails) the quoted title is all there is.
+async function findRevertedClosures(
+	revert: Revert,
+	repository: string,
+	githubConfig: GitHubCommentConfig | null,
+	odoo: OdooClient,
+	result: ProcessResult,
+): Promise<TaskReference[]> {
+	// A revert of a revert re-applies the change, so the twice-quoted title closes nothing
+	let refs = parseChangeReferences(revert.title ?? "", "", odoo);
+
+	if (githubConfig && (revert.pullRequest || revert.sha)) {
+		const [owner, repo] = repository.split("/");
+		try {
+			if (revert.pullRequest) {
+				const pr = await getPullRequest(githubConfig, owner, repo, revert.pullRequest);
+				const commits = await listPullRequestCommits(githubConfig, owner, repo, pr.number);
+				refs = mergeReferences(
+					parsePullRequestReferences(pr, odoo),
+					parseCommitListReferences(commits, odoo),
+				);
+			} else if (revert.sha) {
+				const commit = await getCommit(githubConfig, owner, repo, revert.sha);
+				const pulls = await listCommitPullRequests(githubConfig, owner, repo, revert.sha);
+				refs = mergeReferences(
+					parseCommitListReferences([{ ...commit, parents: [] }], odoo),
+					...pulls.filter((pr) => pr.merged_at).map((pr) => parsePullRequestReferences(pr, odoo)),
+				);
+			}
+		} catch (error) {
+			result.errors.push(
+				`GitHub revert lookup failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	return refs.filter((ref) => ref.action === "close");
+}
+
+// Link to the reverted PR or commit, or its quoted title when neither is known
+function formatRevertedChange(revert: Revert, repositoryUrl: string): string {
+	if (revert.pullRequest) {
+		return `PR <a href="${repositoryUrl}/pull/${revert.pullRequest}">#${revert.pullRequest}</a>`;
+	}
+	if (revert.sha) {
+		return `commit <a href="${repositoryUrl}/commit/${revert.sha}">${revert.sha.substring(0, 7)}</a>`;
+	}
+	return `"${escapeHtml(revert.title ?? "")}"`;
+}
+
+// Moves tasks closed by a reverted change back to the reopen stage (or In Progress)
+async function reopenRevertedTasks(
+	refs: TaskReference[],
+	message: string,
+	authorIdentifier: string | undefined,
+	odoo: OdooClient,
+	result: ProcessResult,
+): Promise<void> {
+	const stage = odoo.stages.reopen ?? odoo.stages.inProgress;
+
+	for (const ref of refs) {
+		const key = formatTaskKey(ref);
+		try {
+			const task = await odoo.findTask(ref);
+			if (!task) {
+				result.errors.push(`${key}: Task not found`);
+				continue;
+			}
+
+			await odoo.addMessage(task.id, message, authorIdentifier);
+			if (stage) {
+				console.info(`Reopening ${key} to stage=${String(stage)}`);
+				await odoo.setStage(task.id, stage, task.project_id ? task.project_id[0] : null);
+			}
+
+			result.processed++;
+		} catch (error) {
+			const msg = `${key}: ${error instanceof Error ? error.message : "Unknown error"}`;
+			console.error(msg);
+			result.errors.push(msg);
+		}
+	}
+}
+
+async function fetchPullRequestCommits(
+	event: PullRequestEvent,
+	githubConfig: GitHubCommentConfig | null,
+	result: ProcessResult,
+): Promise<GitHubCommit[]> {
+	if (!githubConfig) {
+		console.info(`PR #${event.pull_request.number} commits not scanned: no GitHub token`);
+		return [];
+	}
+
+	try {
+		return await listPullRequestCommits(
+			githubConfig,
+			event.repository.owner.login,
+			event.repository.name,
+			event.pull_request.number,
+		);
+	} catch (error) {
+		result.errors.push(
+			`GitHub commits fetch failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+		);
+		return [];
+	}
+}
+
+function formatPullRequestLink(link: PullRequestLink, repository: string): string {
+	const label =
+		link.repository === repository ? `#${link.number}` : `${link.repository}#${link.number}`;
+	return `<a href="${link.url}">${label}</a>`;
+}
+
+// Chatter line listing the closing PRs a task still waits for
+function formatPendingPullRequests(pending: PullRequestLink[], repository: string): string {
+	if (pending.length === 0) {
+		return "";
+	}
+	return `<br/>Not closing yet, waiting for ${pending
+		.map((link) => formatPullRequestLink(link, repository))
+		.join(", ")}`;
+}
+
+// Records the PR's link to the task. A task closed by several PRs only closes once none of them
+// is open: until then the stage is left alone (facts: null) and the open PRs are returned.
+async function trackPullRequestLink(
+	taskId: number,
+	ref: TaskReference,
+	event: PullRequestEvent,
+	facts: StageEventFacts,
+	store: LinkStore,
+): Promise<{ facts: StageEventFacts | null; pending: PullRequestLink[] }> {
+	const pr = event.pull_request;
+	const link: PullRequestLink = {
+		repository: event.repository.full_name,
+		number: pr.number,
+		url: pr.html_url,
+		action: ref.action,
+		state: event.action === "closed" ? (pr.merged ? "merged" : "closed") : "open",
+	};
+	const links = await store.saveLink(taskId, link);
+
+	if (link.action !== "close" || link.state === "open") {
+		return { facts, pending: [] };
+	}
+
+	const others = links.filter(
+		(other) =>
+			other.action === "close" &&
+			!(other.repository === link.repository && other.number === link.number),
+	);
+	const pending = others.filter((other) => other.state === "open");
+	const anyMerged = link.state === "merged" || others.some((other) => other.state === "merged");
+
+	if (!anyMerged) {
+		return { facts, pending: [] };
+	}
+	if (pending.length > 0) {
+		return { facts: null, pending };
+	}
+	// The last open closing PR was closed without merge: the close deferred by the others applies
+	return { facts: { ...facts, merged: true }, pending: [] };
+}
+
+// Tasks an edit removed from the PR description get a note and stop waiting for the PR
+async function unlinkPullRequest(
+	refs: TaskReference[],
+	event: PullRequestEvent,
+	odoo: OdooClient,
+	links: LinkStore | undefined,
+	result: ProcessResult,
+): Promise<void> {
+	const pr = event.pull_request;
+	const message = `${GH_ICON} Unlinked from PR <a href="${pr.html_url}">#${pr.number}</a>`;
+
+	for (const ref of refs) {
+		const key = formatTaskKey(ref);
+		try {
+			const task = await odoo.findTask(ref);
+			if (!task) {
+				result.errors.push(`${key}: Task not found`);
+				continue;
+			}
+
+			await odoo.addMessage(task.id, message, pr.user.email || pr.user.login);
+			await links?.removeLink(task.id, event.repository.full_name, pr.number);
+			result.processed++;
+		} catch (error) {
+			const msg = `${key}: ${error instanceof Error ? error.message : "Unknown error"}`;
+			console.error(msg);
+			result.errors.push(msg);
+		}
+	}
+}
+
 export async function handlePullRequestEvent(
 	event: PullRequestEvent,
 	odoo: OdooClient,
 	githubConfig: GitHubCommentConfig | null,
+	options: PullRequestOptions = {},
 ): Promise<ProcessResult> {
 	const result: ProcessResult = { processed: 0, errors: [] };
 
-	if (!["opened", "edited", "closed", "reopened", "ready_for_review"].includes(event.action)) {
+	const actions = [
+		"opened",
+		"edited",
+		"closed",
+		"reopened",
+		"ready_for_review",
+		"converted_to_draft",
+	];
+	if (options.scanCommitsOnSync) {
+		actions.push("synchronize");
+	}
+	if (!actions.includes(event.action)) {
 		return result;
 	}
 
 	const pr = event.pull_request;
-	const textToSearch = `${pr.title}\n${pr.body ?? ""}`;
-	const refs = parseReferences(textToSearch);
+	if (hasSkipDirective(pr.title)) {
+		console.info(`PR #${pr.number} skipped: [skip odoo] directive in title`);
+		return result;
+	}
+
+	const isMerged = event.action === "closed" && pr.merged;
+	let refs = parsePullRequestReferences(pr, odoo);
+	let removed: TaskReference[] = [];
+
+	if (isMerged) {
+		// Close keywords in commit messages apply once the PR lands
+		const commits = await fetchPullRequestCommits(event, githubConfig, result);
+		refs = mergeReferences(refs, parseCommitListReferences(commits, odoo));
+	} else if (event.action === "synchronize") {
+		// Only tasks first referenced by the pushed commits are new to the PR. After a force push
+		// the old head is gone, so every commit counts as pushed.
+		const commits = await fetchPullRequestCommits(event, githubConfig, result);
+		const start = commits.findIndex((commit) => commit.sha === event.before) + 1;
+		const known = new Set(
+			mergeReferences(refs, parseCommitListReferences(commits.slice(0, start), odoo)).map(
+				formatTaskKey,
+			),
+		);
+		refs = parseCommitListReferences(commits.slice(start), odoo).filter(
+			(ref) => !known.has(formatTaskKey(ref)),
+		);
+	} else if (event.action === "edited") {
+		// Only references the edit added, or whose relationship it changed, are noted again
+		const previous = parsePullRequestReferences(
+			{
+				title: event.changes?.title?.from ?? pr.title,
+				body: event.changes?.body ? event.changes.body.from : pr.body,
+				head: pr.head,
+			},
+			odoo,
+		);
+		const previousActions = new Map(previous.map((ref) => [formatTaskKey(ref), ref.action]));
+		const current = new Set(refs.map(formatTaskKey));
+		removed = previous.filter((ref) => !current.has(formatTaskKey(ref)));
+		refs = refs.filter((ref) => previousActions.get(formatTaskKey(ref)) !== ref.action);
+	}
+
+	// Merging a revert reopens what the reverted PR or commit closed
+	const revert = isMerged ? parseRevert(pr.title, pr.body ?? "") : null;
+	if (revert) {
+		const closed = await findRevertedClosures(
+			revert,
+			event.repository.full_name,
+			githubConfig,
+			odoo,
+			result,
+		);
+		const message = `${GH_ICON} Reopened: PR <a href="${pr.html_url}">#${pr.number}</a> reverts ${formatRevertedChange(
+			revert,
+			`https://github.com/${event.repository.full_name}`,
+		)}`;
+		await reopenRevertedTasks(closed, message, pr.user.email || pr.user.login, odoo, result);
+	}
 
 	console.info(
 		`PR #${pr.number} action=${event.action} merged=${pr.merged} draft=${pr.draft} refs=${
-			refs.map((r) => `${r.action}:ODP-${r.taskId}`).join(",") || "none"
-		}`,
+			refs.map((r) => `${r.action}:${formatTaskKey(r)}`).join(",") || "none"
+		}${removed.length > 0 ? ` removed=${removed.map(formatTaskKey).join(",")}` : ""}`,
 	);
 
+	if (removed.length > 0) {
+		await unlinkPullRequest(removed, event, odoo, options.links, result);
+	}
+
 	if (refs.length === 0) {
 		return result;
 	}
 
-	const isMerged = event.action === "closed" && pr.merged;
-	const isClosed = event.action === "closed" && !pr.merged;
-	const isOpened =
-		((event.action === "opened" || event.action === "reopened") && !pr.draft) ||
-		event.action === "ready_for_review";
 	const updatedTasks: string[] = [];
-
-	// Determine which stage to transition to based on PR action
-	const getTargetStage = (refAction: "close" | "ref"): StageRef | null => {
-		if (isMerged && refAction === "close") {
-			return odoo.stages.done;
-		}
-		if (isClosed && odoo.stages.canceled) {
-			return odoo.stages.canceled;
-		}
-		if (isOpened && odoo.stages.inProgress) {
-			return odoo.stages.inProgress;
-		}
-		return null;
+	const facts: StageEventFacts = {
+		event: "pull_request",
+		action: event.action,
+		merged: pr.merged,
+		draft: pr.draft,
+		branch: pr.base.ref,
+		labels: pr.labels?.map((label) => label.name),
+		repository: event.repository.full_name,
 	};
 
 	for (const ref of refs) {
+		const key = formatTaskKey(ref);
 		try {
-			const task = await odoo.getTask(ref.taskId);
+			const task = await odoo.findTask(ref);
 			if (!task) {
-				result.errors.push(`ODP-${ref.taskId}: Task not found`);
+				result.errors.push(`${key}: Task not found`);
 				continue;
 			}
 
-			const action = event.action === "closed" ? (pr.merged ? "merged" : "closed") : event.action;
-			const message = `${GH_ICON} Referenced in PR <a href="${pr.html_url}">#${pr.number}</a> (${action})`;
+			const links = options.links
+				? await trackPullRequestLink(task.id, ref, event, facts, options.links)
+				: { facts, pending: [] };
+
+			const action =
+				event.action === "closed"
+					? pr.merged
+						? "merged"
+						: "closed"
+					: (ACTION_LABELS[event.action] ?? event.action);
+			const relationship = RELATIONSHIP_LABELS[ref.action];
+			const message = `${GH_ICON} Referenced in PR <a href="${pr.html_url}">#${pr.number}</a> (${action}${
+				relationship ? `, ${relationship}` : ""
+			})${formatPendingPullRequests(links.pending, event.repository.full_name)}`;
 			// Pass PR author's email if available, otherwise their GitHub login for mapping lookup
 			const authorIdentifier = pr.user.email || pr.user.login;
-			await odoo.addMessage(ref.taskId, message, authorIdentifier);
+			await odoo.addMessage(task.id, message, authorIdentifier);
 
-			const targetStage = getTargetStage(ref.action);
-			if (targetStage) {
-				console.info(
-					`PR #${pr.number} transitioning ODP-${ref.taskId} via action=${ref.action} to stage=${String(targetStage)}`,
-				);
-				await odoo.setStage(ref.taskId, targetStage);
+			if (links.facts) {
+				await applyStageRules(task, ref, links.facts, odoo, `PR #${pr.number}`);
 			} else {
 				console.info(
-					`PR #${pr.number} no stage transition for ODP-${ref.taskId} (action=${ref.action}, event=${event.action}, merged=${pr.merged})`,
+					`PR #${pr.number} not closing ${key}: ${links.pending.length} closing PR(s) still open`,
 				);
 			}
 
-			updatedTasks.push(`ODP-${ref.taskId}`);
+			updatedTasks.push(key);
 			result.processed++;
 		} catch (error) {
-			const msg = `ODP-${ref.taskId}: ${error instanceof Error ? error.message : "Unknown error"}`;
+			const msg = `${key}: ${error instanceof Error ? error.message : "Unknown error"}`;
 			console.error(msg);
 			result.errors.push(msg);
 		}
 	}
 
+	// Body commands run once, when the PR is opened, so later edits don't repeat them
+	if (event.action === "opened") {
+		await applySmartCommands(
+			parseSmartCommands(pr.body ?? "", odoo.parserOptions),
+			{
+				label: `PR #${pr.number}`,
+				link: `PR <a href="${pr.html_url}">#${pr.number}</a>`,
+				authorIdentifier: pr.user.email || pr.user.login,
+				date: new Date().toISOString().slice(0, 10),
+				defaultDescription: pr.title,
+			},
+			odoo,
+			result,
+		);
+	}
+
 	if (githubConfig && updatedTasks.length > 0 && event.action !== "closed") {
 		try {
 			const comment = `Updated Odoo tasks: ${updatedTasks.join(", ")}`;
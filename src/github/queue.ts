@@ -0,0 +1,113 @@
+import type { OdooClient } from "../odoo/client.js";
+import { formatTaskKey, hasSkipDirective } from "../parser/references.js";
+import { type GitHubPullRequest, getPullRequest } from "./api.js";
+import type { GitHubCommentConfig } from "./comments.js";
+import { escapeHtml, GH_ICON, type ProcessResult, parsePullRequestReferences } from "./events.js";
+
+export interface MergeGroupEvent {
+	action: string;
+	reason?: string; // destroyed: merged, invalidated or dequeued
+	merge_group: {
+		head_sha: string;
+		head_ref: string; // refs/heads/gh-readonly-queue/main/pr-42-<base sha>
+		base_ref: string;
+		head_commit: {
+			message: string;
+		} | null;
+	};
+	repository: {
+		full_name: string;
+		html_url: string;
+	};
+}
+
+// Each merge group is created for the PR entering the queue, on top of the groups ahead of it
+const QUEUE_REF_PATTERN = /\/pr-(\d+)-[0-9a-f]+$/;
+// Head commit of the group: a merge commit, or a squash commit with the PR number in its title
+const MERGE_TITLE_PATTERN = /^Merge pull request #(\d+)\b/;
+const SQUASH_TITLE_PATTERN = /\(#(\d+)\)$/;
+
+// The PR a merge group was created for, from its queue branch or its head commit
+export function parseQueuedPullRequest(group: MergeGroupEvent["merge_group"]): number | null {
+	const title = group.head_commit?.message.split("\n")[0].trim() ?? "";
+	const match =
+		group.head_ref.match(QUEUE_REF_PATTERN) ??
+		title.match(MERGE_TITLE_PATTERN) ??
+		title.match(SQUASH_TITLE_PATTERN);
+	return match ? Number.parseInt(match[1], 10) : null;
+}
+
+export async function handleMergeGroupEvent(
+	event: MergeGroupEvent,
+	odoo: OdooClient,
+	githubConfig: GitHubCommentConfig | null,
+): Promise<ProcessResult> {
+	const result: ProcessResult = { processed: 0, errors: [] };
+	const group = event.merge_group;
+
+	// Merged groups are followed by the PR's closed event; invalidated ones are rebuilt
+	const failed = event.action === "destroyed" && event.reason === "dequeued";
+	if (event.action !== "checks_requested" && !failed) {
+		return result;
+	}
+
+	const prNumber = parseQueuedPullRequest(group);
+	if (prNumber === null) {
+		console.warn(`Merge group ${group.head_ref}: no PR number found`);
+		return result;
+	}
+
+	if (!githubConfig) {
+		result.errors.push(`PR #${prNumber}: GITHUB_TOKEN required to read the queued PR`);
+		return result;
+	}
+
+	let pr: GitHubPullRequest;
+	try {
+		const [owner, repo] = event.repository.full_name.split("/");
+		pr = await getPullRequest(githubConfig, owner, repo, prNumber);
+	} catch (error) {
+		const msg = `GitHub PR lookup failed: ${error instanceof Error ? error.message : "Unknown error"}`;
+		console.error(msg);
+		result.errors.push(msg);
+		return result;
+	}
+
+	if (hasSkipDirective(pr.title)) {
+		console.info(`PR #${pr.number} merge group skipped: [skip odoo] directive in title`);
+		return result;
+	}
+
+	const refs = parsePullRequestReferences(pr, odoo);
+	console.info(
+		`PR #${pr.number} merge group action=${event.action}${event.reason ? ` reason=${event.reason}` : ""} refs=${
+			refs.map((r) => `${r.action}:${formatTaskKey(r)}`).join(",") || "none"
+		}`,
+	);
+
+	const prLink = `<a href="${pr.html_url}">#${pr.number}</a>`;
+	const base = escapeHtml(group.base_ref.replace(/^refs\/heads\//, ""));
+	const message = failed
+		? `${GH_ICON} ❌ PR ${prLink} left the merge queue without merging into ${base}`
+		: `${GH_ICON} PR ${prLink} queued for merge into ${base}`;
+
+	for (const ref of refs) {
+		const key = formatTaskKey(ref);
+		try {
+			const task = await odoo.findTask(ref);
+			if (!task) {
+				result.errors.push(`${key}: Task not found`);
+				continue;
+			}
+
+			await odoo.addMessage(task.id, message);
+			result.processed++;
+		} catch (error) {
+			const msg = `${key}: ${error instanceof Error ? error.message : "Unknown error"}`;
+			console.error(msg);
+			result.errors.push(msg);
+		}
+	}
+
+	return result;
+}
@@ -0,0 +1,196 @@
+import type { OdooClient, StageRef } from "../odoo/client.js";
+import type { StageEventFacts } from "../odoo/rules.js";
+import { formatTaskKey, type TaskReference } from "../parser/references.js";
+import { compareCommits, type GitHubRelease, listReleases } from "./api.js";
+import type { GitHubCommentConfig } from "./comments.js";
+import {
+	escapeHtml,
+	findStageMove,
+	GH_ICON,
+	type ProcessResult,
+	parseCommitListReferences,
+} from "./events.js";
+
+export interface ReleaseEvent {
+	action: string;
+	release: GitHubRelease & {
+		target_commitish: string;
+		author: {
+			login: string;
+		};
+	};
+	repository: {
+		full_name: string;
+		html_url: string;
+	};
+}
+
+// The release this one follows: the latest one published before it. Stable releases are compared
+// with the previous stable release, so tasks shipped in its pre-releases are noted again.
+function findPreviousRelease(
+	releases: GitHubRelease[],
+	current: ReleaseEvent["release"],
+): GitHubRelease | null {
+	const publishedAt = current.published_at ?? new Date().toISOString();
+	const candidates = releases.filter(
+		(release) =>
+			!release.draft &&
+			release.tag_name !== current.tag_name &&
+			release.published_at !== null &&
+			release.published_at < publishedAt &&
+			(current.prerelease || !release.prerelease),
+	);
+	candidates.sort((a, b) => (b.published_at ?? "").localeCompare(a.published_at ?? ""));
+	return candidates[0] ?? null;
+}
+
+// Tasks referenced by the commits between the previous release and this one
+async function collectReleaseReferences(
+	event: ReleaseEvent,
+	githubConfig: GitHubCommentConfig,
+	odoo: OdooClient,
+): Promise<TaskReference[]> {
+	const { release } = event;
+	const [owner, repo] = event.repository.full_name.split("/");
+
+	const previous = findPreviousRelease(await listReleases(githubConfig, owner, repo), release);
+	if (!previous) {
+		console.info(`Release ${release.tag_name}: no previous release to compare with`);
+		return [];
+	}
+
+	const commits = await compareCommits(
+		githubConfig,
+		owner,
+		repo,
+		previous.tag_name,
+		release.tag_name,
+	);
+	console.info(
+		`Release ${release.tag_name}: ${commits.length} commit(s) since ${previous.tag_name}`,
+	);
+	return parseCommitListReferences(commits, odoo);
+}
+
+interface StageBatch {
+	stage: StageRef;
+	projectId: number | null;
+	taskIds: number[];
+	keys: string[];
+}
+
+// Chatter note posted when a change ships
+export interface ShippedNote {
+	message: string;
+	authorIdentifier: string;
+	context: string; // Log prefix, e.g. "Release v2.3.0"
+}
+
+// Notes the shipped change on every referenced task, then moves the tasks matching a stage rule
+// with one write per project and stage
+export async function noteShippedTasks(
+	refs: TaskReference[],
+	{ message, authorIdentifier, context }: ShippedNote,
+	facts: StageEventFacts,
+	odoo: OdooClient,
+	result: ProcessResult,
+): Promise<void> {
+	const noted = new Set<number>();
+	const batches = new Map<string, StageBatch>();
+
+	for (const ref of refs) {
+		const key = formatTaskKey(ref);
+		try {
+			const task = await odoo.findTask(ref);
+			if (!task) {
+				result.errors.push(`${key}: Task not found`);
+				continue;
+			}
+			// Keys resolving to the same task get one note
+			if (noted.has(task.id)) {
+				continue;
+			}
+			noted.add(task.id);
+
+			await odoo.addMessage(task.id, message, authorIdentifier);
+			result.processed++;
+
+			const stage = await findStageMove(task, ref, facts, odoo, context);
+			if (stage !== null) {
+				const projectId = task.project_id ? task.project_id[0] : null;
+				const batchKey = `${projectId ?? "*"}:${String(stage)}`;
+				const batch = batches.get(batchKey) ?? { stage, projectId, taskIds: [], keys: [] };
+				batch.taskIds.push(task.id);
+				batch.keys.push(key);
+				batches.set(batchKey, batch);
+			}
+		} catch (error) {
+			const msg = `${key}: ${error instanceof Error ? error.message : "Unknown error"}`;
+			console.error(msg);
+			result.errors.push(msg);
+		}
+	}
+
+	for (const { stage, projectId, taskIds, keys } of batches.values()) {
+		try {
+			await odoo.setStages(taskIds, stage, projectId);
+		} catch (error) {
+			const msg = `${keys.join(", ")}: ${error instanceof Error ? error.message : "Unknown error"}`;
+			console.error(msg);
+			result.errors.push(msg);
+		}
+	}
+}
+
+export async function handleReleaseEvent(
+	event: ReleaseEvent,
+	odoo: OdooClient,
+	githubConfig: GitHubCommentConfig | null,
+): Promise<ProcessResult> {
+	const result: ProcessResult = { processed: 0, errors: [] };
+	const { release } = event;
+
+	if (event.action !== "published" || release.draft) {
+		return result;
+	}
+
+	if (!githubConfig) {
+		result.errors.push(`Release ${release.tag_name}: GITHUB_TOKEN required to list its commits`);
+		return result;
+	}
+
+	let refs: TaskReference[];
+	try {
+		refs = await collectReleaseReferences(event, githubConfig, odoo);
+	} catch (error) {
+		const msg = `GitHub compare failed: ${error instanceof Error ? error.message : "Unknown error"}`;
+		console.error(msg);
+		result.errors.push(msg);
+		return result;
+	}
+
+	console.info(
+		`Release ${release.tag_name} refs=${refs.map((r) => `${r.action}:${formatTaskKey(r)}`).join(",") || "none"}`,
+	);
+
+	const context = `Release ${release.tag_name}`;
+	const message = `${GH_ICON} Released in <a href="${release.html_url}">${escapeHtml(release.tag_name)}</a>${
+		release.prerelease ? " (pre-release)" : ""
+	}`;
+	const facts: StageEventFacts = {
+		event: "release",
+		action: event.action,
+		branch: release.target_commitish,
+		prerelease: release.prerelease,
+		repository: event.repository.full_name,
+	};
+	await noteShippedTasks(
+		refs,
+		{ message, authorIdentifier: release.author.login, context },
+		facts,
+		odoo,
+		result,
+	);
+
+	return result;
+}
@@ -0,0 +1,118 @@
+import type { OdooClient } from "../odoo/client.js";
+import type { StageEventFacts } from "../odoo/rules.js";
+import { formatTaskKey, hasSkipDirective } from "../parser/references.js";
+import {
+	applyStageRules,
+	escapeHtml,
+	GH_ICON,
+	type ProcessResult,
+	type PullRequestEvent,
+	parsePullRequestReferences,
+} from "./events.js";
+
+export interface PullRequestReviewEvent {
+	action: string;
+	review: {
+		state: string; // approved, changes_requested, commented, dismissed
+		body: string | null;
+		html_url: string;
+		user: {
+			login: string;
+			email?: string;
+		};
+	};
+	pull_request: Pick<
+		PullRequestEvent["pull_request"],
+		"number" | "title" | "body" | "html_url" | "draft" | "head" | "base" | "labels"
+	> & {
+		state: string; // open or closed
+	};
+	repository: PullRequestEvent["repository"];
+}
+
+const REVIEW_STATE_LABELS: Record<string, string> = {
+	approved: "✅ approved",
+	changes_requested: "❌ changes requested",
+	commented: "💬 commented",
+};
+
+export async function handlePullRequestReviewEvent(
+	event: PullRequestReviewEvent,
+	odoo: OdooClient,
+): Promise<ProcessResult> {
+	const result: ProcessResult = { processed: 0, errors: [] };
+
+	if (event.action !== "submitted" && event.action !== "dismissed") {
+		return result;
+	}
+
+	const { review, pull_request: pr } = event;
+	if (hasSkipDirective(pr.title)) {
+		console.info(`PR #${pr.number} review skipped: [skip odoo] directive in title`);
+		return result;
+	}
+
+	const state = review.state.toLowerCase();
+
+	// Replies to inline comments arrive as empty "commented" reviews; only real reviews are noted
+	if (event.action === "submitted" && state === "commented" && !review.body?.trim()) {
+		return result;
+	}
+
+	const refs = parsePullRequestReferences(pr, odoo);
+
+	console.info(
+		`PR #${pr.number} review action=${event.action} state=${state} refs=${
+			refs.map((r) => `${r.action}:${formatTaskKey(r)}`).join(",") || "none"
+		}`,
+	);
+
+	if (refs.length === 0) {
+		return result;
+	}
+
+	const reviewer = `<a href="https://github.com/${review.user.login}">@${escapeHtml(review.user.login)}</a>`;
+	const outcome =
+		event.action === "dismissed"
+			? "review dismissed"
+			: (REVIEW_STATE_LABELS[state] ?? escapeHtml(state.replace(/_/g, " ")));
+	const message = `${GH_ICON} PR <a href="${pr.html_url}">#${pr.number}</a> <a href="${review.html_url}">${outcome}</a> by ${reviewer}`;
+	// Reviews of merged or closed PRs never move tasks
+	const facts: StageEventFacts | null =
+		pr.state === "open"
+			? {
+					event: "pull_request_review",
+					action: event.action,
+					reviewState: state,
+					draft: pr.draft,
+					branch: pr.base.ref,
+					labels: pr.labels?.map((label) => label.name),
+					repository: event.repository.full_name,
+				}
+			: null;
+
+	for (const ref of refs) {
+		const key = formatTaskKey(ref);
+		try {
+			const task = await odoo.findTask(ref);
+			if (!task) {
+				result.errors.push(`${key}: Task not found`);
+				continue;
+			}
+
+			await odoo.addMessage(task.id, message, review.user.email || review.user.login);
+
+			if (facts) {
+				await applyStageRules(task, ref, facts, odoo, `PR #${pr.number} review`);
+			}
+
+			result.processed++;
+		} catch (error) {
+			const msg = `${key}: ${error instanceof Error ? error.message : "Unknown error"}`;
+			console.error(msg);
+			result.errors.push(msg);
+		}
+	}
+
+	return result;
+}
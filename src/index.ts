@@ -1,16 +1,33 @@
 import * as Sentry from "@sentry/cloudflare";
+import {
+	type CheckSuiteEvent,
+	handleCheckSuiteEvent,
+	handleWorkflowRunEvent,
+	type WorkflowRunEvent,
+} from "./github/checks.js";
+import { type DeploymentStatusEvent, handleDeploymentStatusEvent } from "./github/deployments.js";
 import {
 	handlePullRequestEvent,
 	handlePushEvent,
 	type PullRequestEvent,
 	type PushEvent,
 } from "./github/events.js";
+import { handleMergeGroupEvent, type MergeGroupEvent } from "./github/queue.js";
+import { handleReleaseEvent, type ReleaseEvent } from "./github/releases.js";
+import { handlePullRequestReviewEvent, type PullRequestReviewEvent } from "./github/reviews.js";
 import { verifyWebhookSignature } from "./github/webhook.js";
 import { OdooClient } from "./odoo/client.js";
+import { parseStageRules, type StageRule } from "./odoo/rules.js";
+import type { TaskPrefixMapping } from "./parser/references.js";
+import { KVCheckStore } from "./store/checks.js";
+import { KVLinkStore } from "./store/links.js";
 
 export interface Env {
 	GITHUB_WEBHOOK_SECRET: string;
 	GITHUB_TOKEN?: string;
+	GITHUB_SYNC_PR_COMMITS?: string; // Optional: "true" to link tasks from commits pushed to open PRs
+	GITHUB_CLOSE_BRANCHES?: string; // Optional: comma-separated globs of branches closing tasks on push
+	GITHUB_REFERENCE_BRANCHES?: string; // Optional: comma-separated globs of branches linking tasks
 	ODOO_URL: string;
 	ODOO_DATABASE: string;
 	ODOO_USERNAME: string;
@@ -19,11 +36,26 @@ export interface Env {
 	ODOO_STAGE_DONE: string; // Required: stage for closes/fixes when merged
 	ODOO_STAGE_IN_PROGRESS?: string; // Optional: stage when PR opened
 	ODOO_STAGE_CANCELED?: string; // Optional: stage when PR closed without merge
+	ODOO_STAGE_DRAFT?: string; // Optional: stage when a PR is converted back to draft
+	ODOO_STAGE_DRAFT_PHASE?: string; // Optional: "true" to move draft and ready PRs to separate stages
+	ODOO_STAGE_IN_REVIEW?: string; // Optional: stage when a PR review is submitted
+	ODOO_STAGE_REOPEN?: string; // Optional: stage when a closing change is reverted
+	ODOO_STAGE_RELEASED?: string; // Optional: stage when a release ships a closed task
+	// Deployed stages - JSON object: {"staging": "QA", "production": "Released"} (environment -> stage)
+	ODOO_STAGE_DEPLOYED?: string;
+	// Stage rules - JSON array of {"when": {...}, "stage": ...}, replaces the ODOO_STAGE_* transitions
+	ODOO_STAGE_RULES?: string;
+	ODOO_STAGE_MONOTONIC?: string; // Optional: "true" to never move tasks to an earlier stage
+	// Task prefixes - JSON object: {"ODP": 3, "WEB": 7} (prefix -> project.project ID or null)
+	ODOO_TASK_PREFIXES?: string; // Optional: defaults to {"ODP": null}
+	ODOO_TASK_KEY_FIELD?: string; // Optional: task field holding the task code (e.g. x_task_code)
+	ODOO_TASK_KEY_VALUE?: string; // Optional: "number" (123, default) or "key" (ODP-123)
 	// User mapping - JSON object: {"github@email.com": "odoo_username"}
 	ODOO_USER_MAPPING?: string; // Optional: GitHub email -> Odoo username mapping
 	ODOO_DEFAULT_USER_ID?: string; // Optional: fallback Odoo user ID for posting messages
 	ODOO_CF_ACCESS_CLIENT_ID?: string; // Optional: Cloudflare Access service token client ID
 	ODOO_CF_ACCESS_CLIENT_SECRET?: string; // Optional: Cloudflare Access service token client secret
+	LINKS?: KVNamespace; // Optional: KV namespace tracking PR links and noted CI outcomes
 	SENTRY_DSN?: string; // Optional: Sentry DSN for error monitoring
 	SENTRY_ENVIRONMENT?: string; // Optional: Sentry environment tag (e.g. production)
 	SENTRY_RELEASE?: string; // Optional: Sentry release tag
@@ -84,6 +116,14 @@ const handler = {
 			return Number.isNaN(num) ? value : num;
 		};
 
+		const parseBranchGlobs = (value?: string): string[] | undefined => {
+			const globs = value
+				?.split(",")
+				.map((glob) => glob.trim())
+				.filter(Boolean);
+			return globs && globs.length > 0 ? globs : undefined;
+		};
+
 		const parseUserMapping = (json?: string): Record<string, string> | undefined => {
 			if (!json) return undefined;
 			try {
@@ -101,6 +141,82 @@ const handler = {
 			}
 		};
 
+		const parseTaskPrefixes = (json?: string): TaskPrefixMapping | undefined => {
+			if (!json) return undefined;
+			try {
+				const parsed = JSON.parse(json) as Record<string, unknown>;
+				const prefixes: TaskPrefixMapping = {};
+				for (const [prefix, projectId] of Object.entries(parsed)) {
+					if (!/^[A-Za-z][A-Za-z0-9]*$/.test(prefix)) {
+						throw new Error(`Invalid prefix: ${prefix}`);
+					}
+					if (projectId !== null && typeof projectId !== "number") {
+						throw new Error(`Invalid project ID for ${prefix}`);
+					}
+					prefixes[prefix.toUpperCase()] = projectId;
+				}
+				return prefixes;
+			} catch {
+				console.error("Invalid ODOO_TASK_PREFIXES JSON");
+				Sentry.captureMessage("Invalid ODOO_TASK_PREFIXES JSON", {
+					level: "error",
+					tags: {
+						github_event_type: eventType,
+						github_delivery_id: deliveryId,
+					},
+				});
+				return undefined;
+			}
+		};
+
+		const parseDeployedStages = (json?: string): Record<string, number | string> | undefined => {
+			if (!json) return undefined;
+			try {
+				const parsed = JSON.parse(json) as Record<string, unknown>;
+				const stages: Record<string, number | string> = {};
+				for (const [environment, stage] of Object.entries(parsed)) {
+					if (typeof stage !== "number" && typeof stage !== "string") {
+						throw new Error(`Invalid stage for ${environment}`);
+					}
+					stages[environment] = typeof stage === "string" ? parseStageRef(stage) : stage;
+				}
+				return stages;
+			} catch {
+				console.error("Invalid ODOO_STAGE_DEPLOYED JSON");
+				Sentry.captureMessage("Invalid ODOO_STAGE_DEPLOYED JSON", {
+					level: "error",
+					tags: {
+						github_event_type: eventType,
+						github_delivery_id: deliveryId,
+					},
+				});
+				return undefined;
+			}
+		};
+
+		const parseRules = (json?: string): StageRule[] | undefined => {
+			if (!json) return undefined;
+			try {
+				return parseStageRules(JSON.parse(json));
+			} catch (error) {
+				const message = error instanceof Error ? error.message : "Unknown error";
+				console.error(`Invalid ODOO_STAGE_RULES, using default transitions: ${message}`);
+				Sentry.captureMessage("Invalid ODOO_STAGE_RULES", {
+					level: "error",
+					tags: {
+						github_event_type: eventType,
+						github_delivery_id: deliveryId,
+					},
+					extra: { error: message },
+				});
+				return undefined;
+			}
+		};
+
+		if (env.ODOO_TASK_KEY_VALUE && !["number", "key"].includes(env.ODOO_TASK_KEY_VALUE)) {
+			console.warn(`Invalid ODOO_TASK_KEY_VALUE "${env.ODOO_TASK_KEY_VALUE}", using "number"`);
+		}
+
 		const hasAccessClientId = Boolean(env.ODOO_CF_ACCESS_CLIENT_ID);
 		const hasAccessClientSecret = Boolean(env.ODOO_CF_ACCESS_CLIENT_SECRET);
 		if (hasAccessClientId !== hasAccessClientSecret) {
@@ -127,7 +243,18 @@ const handler = {
 					? parseStageRef(env.ODOO_STAGE_IN_PROGRESS)
 					: undefined,
 				canceled: env.ODOO_STAGE_CANCELED ? parseStageRef(env.ODOO_STAGE_CANCELED) : undefined,
+				draft: env.ODOO_STAGE_DRAFT ? parseStageRef(env.ODOO_STAGE_DRAFT) : undefined,
+				inReview: env.ODOO_STAGE_IN_REVIEW ? parseStageRef(env.ODOO_STAGE_IN_REVIEW) : undefined,
+				reopen: env.ODOO_STAGE_REOPEN ? parseStageRef(env.ODOO_STAGE_REOPEN) : undefined,
+				released: env.ODOO_STAGE_RELEASED ? parseStageRef(env.ODOO_STAGE_RELEASED) : undefined,
+				deployed: parseDeployedStages(env.ODOO_STAGE_DEPLOYED),
 			},
+			stageRules: parseRules(env.ODOO_STAGE_RULES),
+			monotonicStages: env.ODOO_STAGE_MONOTONIC === "true",
+			draftPhase: env.ODOO_STAGE_DRAFT_PHASE === "true",
+			taskPrefixes: parseTaskPrefixes(env.ODOO_TASK_PREFIXES),
+			taskKeyField: env.ODOO_TASK_KEY_FIELD || undefined,
+			taskKeyValue: env.ODOO_TASK_KEY_VALUE === "key" ? "key" : "number",
 			userMapping: parseUserMapping(env.ODOO_USER_MAPPING),
 			defaultUserId: env.ODOO_DEFAULT_USER_ID
 				? Number.parseInt(env.ODOO_DEFAULT_USER_ID, 10)
@@ -144,7 +271,11 @@ const handler = {
 			const event = JSON.parse(payload);
 
 			if (eventType === "push") {
-				const result = await handlePushEvent(event as PushEvent, odoo);
+				const result = await handlePushEvent(event as PushEvent, odoo, githubConfig, {
+					closeBranches: parseBranchGlobs(env.GITHUB_CLOSE_BRANCHES),
+					referenceBranches: parseBranchGlobs(env.GITHUB_REFERENCE_BRANCHES),
+					links: env.LINKS ? new KVLinkStore(env.LINKS) : undefined,
+				});
 				reportProcessingErrors(eventType, deliveryId, result.errors);
 				return Response.json({
 					status: "ok",
@@ -155,7 +286,10 @@ const handler = {
 			}
 
 			if (eventType === "pull_request") {
-				const result = await handlePullRequestEvent(event as PullRequestEvent, odoo, githubConfig);
+				const result = await handlePullRequestEvent(event as PullRequestEvent, odoo, githubConfig, {
+					scanCommitsOnSync: env.GITHUB_SYNC_PR_COMMITS === "true",
+					links: env.LINKS ? new KVLinkStore(env.LINKS) : undefined,
+				});
 				reportProcessingErrors(eventType, deliveryId, result.errors);
 				return Response.json({
 					status: "ok",
@@ -165,6 +299,69 @@ const handler = {
 				});
 			}
 
+			if (eventType === "pull_request_review") {
+				const result = await handlePullRequestReviewEvent(event as PullRequestReviewEvent, odoo);
+				reportProcessingErrors(eventType, deliveryId, result.errors);
+				return Response.json({
+					status: "ok",
+					event: "pull_request_review",
+					processed: result.processed,
+					errors: result.errors,
+				});
+			}
+
+			if (eventType === "release") {
+				const result = await handleReleaseEvent(event as ReleaseEvent, odoo, githubConfig);
+				reportProcessingErrors(eventType, deliveryId, result.errors);
+				return Response.json({
+					status: "ok",
+					event: "release",
+					processed: result.processed,
+					errors: result.errors,
+				});
+			}
+
+			if (eventType === "deployment_status") {
+				const result = await handleDeploymentStatusEvent(
+					event as DeploymentStatusEvent,
+					odoo,
+					githubConfig,
+				);
+				reportProcessingErrors(eventType, deliveryId, result.errors);
+				return Response.json({
+					status: "ok",
+					event: "deployment_status",
+					processed: result.processed,
+					errors: result.errors,
+				});
+			}
+
+			if (eventType === "workflow_run" || eventType === "check_suite") {
+				const checks = env.LINKS ? new KVCheckStore(env.LINKS) : undefined;
+				const result =
+					eventType === "workflow_run"
+						? await handleWorkflowRunEvent(event as WorkflowRunEvent, odoo, githubConfig, checks)
+						: await handleCheckSuiteEvent(event as CheckSuiteEvent, odoo, githubConfig, checks);
+				reportProcessingErrors(eventType, deliveryId, result.errors);
+				return Response.json({
+					status: "ok",
+					event: eventType,
+					processed: result.processed,
+					errors: result.errors,
+				});
+			}
+
+			if (eventType === "merge_group") {
+				const result = await handleMergeGroupEvent(event as MergeGroupEvent, odoo, githubConfig);
+				reportProcessingErrors(eventType, deliveryId, result.errors);
+				return Response.json({
+					status: "ok",
+					event: "merge_group",
+					processed: result.processed,
+					errors: result.errors,
+				});
+			}
+
 			if (eventType === "ping") {
 				return Response.json({ status: "ok", event: "ping" });
 			}
@@ -1,10 +1,21 @@
+import {
+	formatTaskKey,
+	type ReferenceParserOptions,
+	type TaskPrefixMapping,
+	type TaskReference,
+} from "../parser/references.js";
+import { defaultStageRules, type StageRule } from "./rules.js";
 import type {
 	JsonRpcRequest,
 	JsonRpcResponse,
+	OdooEmployee,
 	OdooMessageSubtype,
 	OdooStage,
+	OdooTag,
 	OdooTask,
 	OdooUser,
+	TaskPriority,
+	TimesheetEntry,
 } from "./types.js";
 
 // Stage can be specified by ID (number) or name (string)
@@ -14,8 +25,16 @@ export interface StageConfig {
 	done: StageRef; // Required: stage for closes/fixes when merged
 	inProgress?: StageRef; // Optional: stage when PR opened
 	canceled?: StageRef; // Optional: stage when PR closed without merge
+	draft?: StageRef; // Optional: stage when a PR is converted back to draft
+	inReview?: StageRef; // Optional: stage when a PR review is submitted
+	reopen?: StageRef; // Optional: stage for tasks whose closing change was reverted
+	released?: StageRef; // Optional: stage for closed tasks shipped in a published release
+	deployed?: Record<string, StageRef>; // Optional: environment -> stage for deployed closed tasks
 }
 
+// How a task key is matched against taskKeyField: by its number (123) or the full key (ODP-123)
+export type TaskKeyValue = "number" | "key";
+
 // User mapping: GitHub email -> Odoo email
 export type UserMapping = Record<string, string>;
 
@@ -25,6 +44,12 @@ export interface OdooConfig {
 	username: string; // Login email for the API user
 	apiKey: string;
 	stages: StageConfig;
+	stageRules?: StageRule[]; // Optional: replaces the transitions derived from stages
+	monotonicStages?: boolean; // Optional: never move tasks to an earlier stage unless a rule allows it
+	draftPhase?: boolean; // Optional: draft PRs move to the draft stage, ready ones to the review stage
+	taskPrefixes?: TaskPrefixMapping; // Optional: task key prefix -> project ID (default: ODP, any project)
+	taskKeyField?: string; // Optional: project.task field holding the task code (default: database ID)
+	taskKeyValue?: TaskKeyValue; // Optional: value compared against taskKeyField (default: number)
 	userMapping?: UserMapping; // Optional: GitHub email -> Odoo email
 	defaultUserId?: number; // Optional: fallback user ID for posting messages
 	accessClientId?: string; // Optional: Cloudflare Access service token client ID
@@ -35,6 +60,9 @@ export class OdooClient {
 	private config: OdooConfig;
 	private requestId = 0;
 	private partnerIdCache = new Map<string, number>(); // email -> partner_id
+	private tagIdCache = new Map<string, number>(); // tag name -> project.tags ID
+	private stageOrderCache = new Map<number, [number, number]>(); // stage ID -> [sequence, id]
+	private stageIdCache = new Map<string, number>(); // "projectId:name" -> project.task.type ID
 	private subtypeCache: number | null = null; // Note subtype ID
 	private uidCache: number | null = null; // Authenticated user ID
 
@@ -250,13 +278,40 @@ export class OdooClient {
 		throw lastError ?? new Error("Odoo RPC failed after retries");
 	}
 
-	async getTask(id: number): Promise<OdooTask | null> {
-		const result = await this.executeKw<OdooTask[]>(
-			"project.task",
-			"search_read",
-			[[["id", "=", id]]],
-			{ fields: ["id", "name", "stage_id"], limit: 1 },
-		);
+	async getTask(id: number, projectId?: number): Promise<OdooTask | null> {
+		// Restrict to the prefix's project so e.g. WEB-12 can't match a task from another project
+		const domain: unknown[] = [["id", "=", id]];
+		if (projectId !== undefined) {
+			domain.push(["project_id", "=", projectId]);
+		}
+		const result = await this.executeKw<OdooTask[]>("project.task", "search_read", [domain], {
+			fields: ["id", "name", "stage_id", "project_id"],
+			limit: 1,
+		});
+		return result.length > 0 ? result[0] : null;
+	}
+
+	async findTask(ref: TaskReference): Promise<OdooTask | null> {
+		const field = this.config.taskKeyField;
+		// Task URLs carry the database ID, so only prefixed keys go through the key field
+		if (!field || !ref.prefix) {
+			return this.getTask(ref.taskId, ref.projectId);
+		}
+
+		const key = formatTaskKey(ref);
+		const value = this.config.taskKeyValue === "key" ? key : ref.taskId;
+		const domain: unknown[] = [[field, "=", value]];
+		if (ref.projectId !== undefined) {
+			domain.push(["project_id", "=", ref.projectId]);
+		}
+		// Fetch two so an ambiguous code (e.g. per-project numbering without a project mapping) is detected
+		const result = await this.executeKw<OdooTask[]>("project.task", "search_read", [domain], {
+			fields: ["id", "name", "stage_id", "project_id"],
+			limit: 2,
+		});
+		if (result.length > 1) {
+			throw new Error(`Ambiguous task key: ${key} matches multiple tasks by ${field}`);
+		}
 		return result.length > 0 ? result[0] : null;
 	}
 
@@ -324,6 +379,82 @@ export class OdooClient {
 		return fallbackName || "unknown";
 	}
 
+	async resolveUser(identifier: string): Promise<OdooUser | null> {
+		// Use mapped email if configured, otherwise use original identifier
+		const odooEmail = this.config.userMapping?.[identifier] ?? identifier;
+		return this.getUserByEmail(odooEmail);
+	}
+
+	async getEmployeeIdForUser(userId: number): Promise<number | null> {
+		const result = await this.executeKw<OdooEmployee[]>(
+			"hr.employee",
+			"search_read",
+			[[["user_id", "=", userId]]],
+			{ fields: ["id", "name"], limit: 1 },
+		);
+		return result.length > 0 ? result[0].id : null;
+	}
+
+	async createTimesheet(entry: TimesheetEntry): Promise<number> {
+		const values: Record<string, unknown> = {
+			task_id: entry.taskId,
+			employee_id: entry.employeeId,
+			unit_amount: entry.hours,
+			name: entry.description,
+			date: entry.date,
+		};
+		if (entry.projectId !== undefined) {
+			values.project_id = entry.projectId;
+		}
+
+		return this.executeKw<number>("account.analytic.line", "create", [values]);
+	}
+
+	async resolveTagId(name: string): Promise<number | null> {
+		const cached = this.tagIdCache.get(name.toLowerCase());
+		if (cached !== undefined) {
+			return cached;
+		}
+		const result = await this.executeKw<OdooTag[]>(
+			"project.tags",
+			"search_read",
+			[[["name", "=ilike", name]]],
+			{ fields: ["id", "name"], limit: 1 },
+		);
+		if (result.length === 0) {
+			return null;
+		}
+		this.tagIdCache.set(name.toLowerCase(), result[0].id);
+		return result[0].id;
+	}
+
+	private async writeTask(taskId: number, values: Record<string, unknown>): Promise<boolean> {
+		const updated = await this.executeKw<boolean>("project.task", "write", [[taskId], values]);
+		if (!updated) {
+			throw new Error(
+				`Task update returned false for task ${taskId} (fields: ${Object.keys(values).join(", ")})`,
+			);
+		}
+		return updated;
+	}
+
+	async addTaskTags(taskId: number, tagIds: number[]): Promise<boolean> {
+		// (4, id) links an existing record without touching the task's other tags
+		return this.writeTask(taskId, { tag_ids: tagIds.map((id) => [4, id]) });
+	}
+
+	async setTaskPriority(taskId: number, priority: TaskPriority): Promise<boolean> {
+		return this.writeTask(taskId, { priority });
+	}
+
+	async assignTask(taskId: number, userId: number): Promise<boolean> {
+		return this.writeTask(taskId, { user_ids: [[4, userId]] });
+	}
+
+	async setTaskDeadline(taskId: number, date: string): Promise<boolean> {
+		return this.writeTask(taskId, { date_deadline: date });
+	}
+
 	async resolveAuthorPartnerId(identifier?: string): Promise<number | null> {
 		if (!identifier) {
 			// Use default user if configured
@@ -338,12 +469,8 @@ export class OdooClient {
 			return this.partnerIdCache.get(identifier) ?? null;
 		}
 
-		// Use mapped email if configured, otherwise use original identifier
-		const mapping = this.config.userMapping;
-		const odooEmail = mapping?.[identifier] ?? identifier;
-
-		// Look up user by email (searches both email and login fields)
-		const user = await this.getUserByEmail(odooEmail);
+		// Look up user by (mapped) email (searches both email and login fields)
+		const user = await this.resolveUser(identifier);
 		if (user?.partner_id) {
 			const partnerId = Array.isArray(user.partner_id) ? user.partner_id[0] : null;
 			if (partnerId) {
@@ -389,34 +516,96 @@ export class OdooClient {
 		return this.executeKw<number>("mail.message", "create", [messageData]);
 	}
 
-	async resolveStage(ref: StageRef): Promise<number | null> {
+	// Every project has its own stages, so names are looked up among the project's stages when known
+	async resolveStage(ref: StageRef, projectId?: number | null): Promise<number | null> {
 		if (typeof ref === "number") {
 			return ref;
 		}
-		// Search by name
-		const result = await this.executeKw<OdooStage[]>(
-			"project.task.type",
-			"search_read",
-			[[["name", "=", ref]]],
-			{ fields: ["id", "name"], limit: 1 },
-		);
-		return result.length > 0 ? result[0].id : null;
+
+		const cacheKey = `${projectId ?? "*"}:${ref}`;
+		const cached = this.stageIdCache.get(cacheKey);
+		if (cached !== undefined) {
+			return cached;
+		}
+
+		const domain: unknown[] = [["name", "=", ref]];
+		if (projectId) {
+			domain.push(["project_ids", "in", [projectId]]);
+		}
+		const result = await this.executeKw<OdooStage[]>("project.task.type", "search_read", [domain], {
+			fields: ["id", "name"],
+			limit: 1,
+		});
+		if (result.length === 0) {
+			return null;
+		}
+
+		this.stageIdCache.set(cacheKey, result[0].id);
+		return result[0].id;
 	}
 
-	async setStage(taskId: number, stageRef?: StageRef): Promise<boolean> {
-		const ref = stageRef ?? this.config.stages.done;
-		const stageId = await this.resolveStage(ref);
+	// Position of stages in the kanban, which Odoo orders by sequence, then ID
+	private async getStageOrder(stageIds: number[]): Promise<Map<number, [number, number]>> {
+		const missing = stageIds.filter((id) => !this.stageOrderCache.has(id));
+		if (missing.length > 0) {
+			const stages = await this.executeKw<OdooStage[]>(
+				"project.task.type",
+				"search_read",
+				[[["id", "in", missing]]],
+				{ fields: ["id", "name", "sequence"] },
+			);
+			for (const stage of stages) {
+				this.stageOrderCache.set(stage.id, [stage.sequence ?? 0, stage.id]);
+			}
+		}
+		return this.stageOrderCache;
+	}
+
+	async isBackwardMove(fromStageId: number, toStageId: number): Promise<boolean> {
+		if (fromStageId === toStageId) {
+			return false;
+		}
+
+		const order = await this.getStageOrder([fromStageId, toStageId]);
+		const from = order.get(fromStageId);
+		const to = order.get(toStageId);
+		if (!from || !to) {
+			throw new Error(`Stage not found: ${from ? toStageId : fromStageId}`);
+		}
+
+		return to[0] < from[0] || (to[0] === from[0] && to[1] < from[1]);
+	}
+
+	async requireStage(ref: StageRef, projectId?: number | null): Promise<number> {
+		const stageId = await this.resolveStage(ref, projectId);
 		if (stageId === null) {
-			throw new Error(`Stage not found: ${ref}`);
+			throw new Error(
+				projectId ? `Stage "${ref}" not found in project ${projectId}` : `Stage not found: ${ref}`,
+			);
 		}
+		return stageId;
+	}
+
+	async setStage(taskId: number, stageRef?: StageRef, projectId?: number | null): Promise<boolean> {
+		return this.setStages([taskId], stageRef, projectId);
+	}
+
+	// Moves several tasks of one project with a single write
+	async setStages(
+		taskIds: number[],
+		stageRef?: StageRef,
+		projectId?: number | null,
+	): Promise<boolean> {
+		const ref = stageRef ?? this.config.stages.done;
+		const stageId = await this.requireStage(ref, projectId);
 
 		const updated = await this.executeKw<boolean>("project.task", "write", [
-			[taskId],
+			taskIds,
 			{ stage_id: stageId },
 		]);
 		if (!updated) {
 			throw new Error(
-				`Stage update returned false for task ${taskId} -> stage ${stageId} (ref: ${String(ref)})`,
+				`Stage update returned false for task ${taskIds.join(", ")} -> stage ${stageId} (ref: ${String(ref)})`,
 			);
 		}
 
@@ -426,4 +615,19 @@ export class OdooClient {
 	get stages(): StageConfig {
 		return this.config.stages;
 	}
+
+	get monotonicStages(): boolean {
+		return this.config.monotonicStages ?? false;
+	}
+
+	get stageRules(): StageRule[] {
+		return (
+			this.config.stageRules ??
+			defaultStageRules(this.config.stages, { draftPhase: this.config.draftPhase })
+		);
+	}
+
+	get parserOptions(): ReferenceParserOptions {
+		return { prefixes: this.config.taskPrefixes, odooUrl: this.config.url };
+	}
 }
@@ -0,0 +1,353 @@
+import type { ReferenceAction } from "../parser/references.js";
+import type { StageConfig, StageRef } from "./client.js";
+
+export type StageEventType =
+	| "push"
+	| "pull_request"
+	| "pull_request_review"
+	| "release"
+	| "deployment";
+
+// What happened on GitHub, matched against rule conditions
+export interface StageEventFacts {
+	event: StageEventType;
+	action?: string; // PR or review action, e.g. "closed" or "submitted"
+	merged?: boolean;
+	draft?: boolean;
+	branch?: string; // PR base branch or pushed branch, without refs/heads/
+	labels?: string[];
+	repository: string; // owner/repo
+	reviewState?: string; // approved, changes_requested, commented
+	prerelease?: boolean;
+	environment?: string; // Deployment environment, e.g. "production"
+}
+
+// Every listed condition must hold; list values match if any entry matches
+export interface StageRuleConditions {
+	event?: StageEventType | StageEventType[];
+	action?: string | string[];
+	merged?: boolean;
+	draft?: boolean;
+	branch?: string | string[]; // Globs, e.g. "release/*"
+	labels?: string | string[]; // PR has at least one of these labels
+	refAction?: ReferenceAction | ReferenceAction[];
+	repository?: string | string[]; // Globs, e.g. "my-org/*"
+	reviewState?: string | string[];
+	prerelease?: boolean;
+	environment?: string | string[]; // Globs, e.g. "review-*"
+}
+
+// A stage for every project, or per project ID with "*" as fallback; null means "don't move"
+export type StageTarget = StageRef | null | Record<string, StageRef | null>;
+
+export interface StageRule {
+	name?: string; // Shown in logs
+	when: StageRuleConditions;
+	stage: StageTarget;
+	allowBackward?: boolean; // Move even to an earlier stage when monotonic stages are on
+}
+
+export interface StageMatch {
+	rule: StageRule;
+	stage: StageRef;
+}
+
+const EVENT_TYPES: StageEventType[] = [
+	"push",
+	"pull_request",
+	"pull_request_review",
+	"release",
+	"deployment",
+];
+const REFERENCE_ACTIONS: ReferenceAction[] = ["close", "part", "related", "ref"];
+const STRING_CONDITIONS = [
+	"action",
+	"branch",
+	"labels",
+	"repository",
+	"reviewState",
+	"environment",
+] as const;
+const BOOLEAN_CONDITIONS = ["merged", "draft", "prerelease"] as const;
+
+function toList<T>(value: T | T[]): T[] {
+	return Array.isArray(value) ? value : [value];
+}
+
+// "*" matches within one path segment, "**" across segments
+function globToRegExp(pattern: string): RegExp {
+	const source = pattern
+		.split("**")
+		.map((part) =>
+			part
+				.split("*")
+				.map((literal) => literal.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+				.join("[^/]*"),
+		)
+		.join(".*");
+	return new RegExp(`^${source}$`);
+}
+
+export function matchesGlob(value: string, patterns: string | string[]): boolean {
+	return toList(patterns).some((pattern) => globToRegExp(pattern).test(value));
+}
+
+function matchesRule(
+	conditions: StageRuleConditions,
+	facts: StageEventFacts,
+	refAction: ReferenceAction,
+): boolean {
+	const {
+		event,
+		action,
+		merged,
+		draft,
+		branch,
+		labels,
+		refAction: actions,
+		repository,
+		reviewState,
+		prerelease,
+		environment,
+	} = conditions;
+
+	if (event !== undefined && !toList(event).includes(facts.event)) return false;
+	if (action !== undefined && !(facts.action && toList(action).includes(facts.action))) {
+		return false;
+	}
+	if (merged !== undefined && Boolean(facts.merged) !== merged) return false;
+	if (draft !== undefined && Boolean(facts.draft) !== draft) return false;
+	if (branch !== undefined && !(facts.branch && matchesGlob(facts.branch, branch))) return false;
+	if (labels !== undefined && !toList(labels).some((label) => facts.labels?.includes(label))) {
+		return false;
+	}
+	if (actions !== undefined && !toList(actions).includes(refAction)) return false;
+	if (repository !== undefined && !matchesGlob(facts.repository, repository)) return false;
+	if (
+		reviewState !== undefined &&
+		!(facts.reviewState && toList(reviewState).includes(facts.reviewState))
+	) {
+		return false;
+	}
+	if (prerelease !== undefined && Boolean(facts.prerelease) !== prerelease) return false;
+	if (
+		environment !== undefined &&
+		!(facts.environment && matchesGlob(facts.environment, environment))
+	) {
+		return false;
+	}
+
+	return true;
+}
+
+function resolveTarget(target: StageTarget, projectId: number | null): StageRef | null {
+	if (target === null || typeof target !== "object") {
+		return target;
+	}
+	const projectStage = projectId !== null ? target[String(projectId)] : undefined;
+	return projectStage !== undefined ? projectStage : (target["*"] ?? null);
+}
+
+// The first rule matching the event and reference decides; its target may still be "don't move"
+export function findStageRule(
+	rules: StageRule[],
+	facts: StageEventFacts,
+	refAction: ReferenceAction,
+	projectId: number | null,
+): StageMatch | null {
+	const rule = rules.find((candidate) => matchesRule(candidate.when, facts, refAction));
+	if (!rule) {
+		return null;
+	}
+	const stage = resolveTarget(rule.stage, projectId);
+	return stage === null ? null : { rule, stage };
+}
+
+export function describeRule(rule: StageRule, index?: number): string {
+	return rule.name ?? (index !== undefined ? `#${index + 1}` : JSON.stringify(rule.when));
+}
+
+export interface DefaultStageRuleOptions {
+	// Draft PRs are their own phase ("In Development"), PRs ready for review the next ("In Review")
+	draftPhase?: boolean;
+}
+
+// The built-in workflow, expressed as rules over the ODOO_STAGE_* settings
+export function defaultStageRules(
+	stages: StageConfig,
+	{ draftPhase = false }: DefaultStageRuleOptions = {},
+): StageRule[] {
+	const rules: StageRule[] = [
+		{
+			name: "merged PR closes task",
+			when: { event: "pull_request", action: "closed", merged: true, refAction: "close" },
+			stage: stages.done,
+		},
+		{
+			name: "pushed commit closes task",
+			when: { event: "push", refAction: "close" },
+			stage: stages.done,
+		},
+	];
+
+	if (stages.canceled !== undefined) {
+		rules.push({
+			name: "PR closed without merge",
+			when: { event: "pull_request", action: "closed", merged: false },
+			stage: stages.canceled,
+		});
+	}
+	const readyStage = draftPhase ? (stages.inReview ?? stages.inProgress) : stages.inProgress;
+	if (readyStage !== undefined) {
+		rules.push(
+			{
+				name: "PR opened",
+				when: { event: "pull_request", action: ["opened", "reopened"], draft: false },
+				stage: readyStage,
+			},
+			{
+				name: "PR ready for review",
+				when: { event: "pull_request", action: "ready_for_review" },
+				stage: readyStage,
+			},
+		);
+	}
+	const draftStage = draftPhase ? (stages.draft ?? stages.inProgress) : stages.draft;
+	if (draftStage !== undefined) {
+		rules.push(
+			draftPhase
+				? {
+						name: "draft PR opened",
+						when: {
+							event: "pull_request",
+							action: ["opened", "reopened", "converted_to_draft"],
+							draft: true,
+						},
+						stage: draftStage,
+					}
+				: {
+						name: "PR converted to draft",
+						when: { event: "pull_request", action: "converted_to_draft" },
+						stage: draftStage,
+					},
+		);
+	}
+	if (stages.inReview !== undefined) {
+		rules.push({
+			name: "PR review submitted",
+			when: { event: "pull_request_review", action: "submitted" },
+			stage: stages.inReview,
+		});
+	}
+	if (stages.released !== undefined) {
+		rules.push({
+			name: "release ships closed task",
+			when: { event: "release", prerelease: false, refAction: "close" },
+			stage: stages.released,
+		});
+	}
+	for (const [environment, stage] of Object.entries(stages.deployed ?? {})) {
+		rules.push({
+			name: `deployed to ${environment}`,
+			when: { event: "deployment", environment, refAction: "close" },
+			stage,
+		});
+	}
+
+	return rules;
+}
+
+function isStageRef(value: unknown): value is StageRef {
+	return (
+		(typeof value === "number" && Number.isInteger(value) && value > 0) ||
+		(typeof value === "string" && value.trim() !== "")
+	);
+}
+
+function validateTarget(target: unknown, label: string): StageTarget {
+	if (target === null || isStageRef(target)) {
+		return target;
+	}
+	if (typeof target !== "object" || Array.isArray(target)) {
+		throw new Error(`${label}: stage must be a stage ID, name, null or project map`);
+	}
+	for (const [project, stage] of Object.entries(target)) {
+		if (project !== "*" && !/^\d+$/.test(project)) {
+			throw new Error(`${label}: project key must be a project ID or "*", got "${project}"`);
+		}
+		if (stage !== null && !isStageRef(stage)) {
+			throw new Error(`${label}: invalid stage for project ${project}`);
+		}
+	}
+	return target as Record<string, StageRef | null>;
+}
+
+function validateConditions(when: unknown, label: string): StageRuleConditions {
+	if (typeof when !== "object" || when === null || Array.isArray(when)) {
+		throw new Error(`${label}: "when" must be an object`);
+	}
+
+	for (const [key, value] of Object.entries(when)) {
+		const isStringList =
+			typeof value === "string" ||
+			(Array.isArray(value) && value.length > 0 && value.every((v) => typeof v === "string"));
+
+		if (key === "event" || key === "refAction") {
+			const allowed: string[] = key === "event" ? EVENT_TYPES : REFERENCE_ACTIONS;
+			if (!isStringList || !toList(value as string | string[]).every((v) => allowed.includes(v))) {
+				throw new Error(`${label}: ${key} must be one or more of ${allowed.join(", ")}`);
+			}
+		} else if ((STRING_CONDITIONS as readonly string[]).includes(key)) {
+			if (!isStringList) {
+				throw new Error(`${label}: ${key} must be a string or a list of strings`);
+			}
+		} else if ((BOOLEAN_CONDITIONS as readonly string[]).includes(key)) {
+			if (typeof value !== "boolean") {
+				throw new Error(`${label}: ${key} must be true or false`);
+			}
+		} else {
+			throw new Error(`${label}: unknown condition "${key}"`);
+		}
+	}
+
+	return when as StageRuleConditions;
+}
+
+// Validates ODOO_STAGE_RULES; throws with the offending rule so config errors surface at startup
+export function parseStageRules(value: unknown): StageRule[] {
+	if (!Array.isArray(value)) {
+		throw new Error("Stage rules must be a JSON array");
+	}
+
+	return value.map((rule, index): StageRule => {
+		let label = `rule #${index + 1}`;
+		if (typeof rule !== "object" || rule === null || Array.isArray(rule)) {
+			throw new Error(`${label}: must be an object`);
+		}
+
+		const { name, when, stage, allowBackward, ...rest } = rule as Record<string, unknown>;
+		if (name !== undefined) {
+			if (typeof name !== "string") {
+				throw new Error(`${label}: name must be a string`);
+			}
+			label = `rule "${name}"`;
+		}
+		const unknown = Object.keys(rest);
+		if (unknown.length > 0) {
+			throw new Error(`${label}: unknown field "${unknown[0]}"`);
+		}
+		if (!("stage" in rule)) {
+			throw new Error(`${label}: missing stage`);
+		}
+		if (allowBackward !== undefined && typeof allowBackward !== "boolean") {
+			throw new Error(`${label}: allowBackward must be true or false`);
+		}
+
+		return {
+			...(name !== undefined ? { name } : {}),
+			when: validateConditions(when ?? {}, label),
+			stage: validateTarget(stage, label),
+			...(allowBackward !== undefined ? { allowBackward } : {}),
+		};
+	});
+}
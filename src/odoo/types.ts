@@ -2,11 +2,13 @@ export interface OdooTask {
 	id: number;
 	name: string;
 	stage_id: [number, string] | false;
+	project_id: [number, string] | false;
 }
 
 export interface OdooStage {
 	id: number;
 	name: string;
+	sequence?: number;
 }
 
 export interface OdooUser {
@@ -17,6 +19,28 @@ export interface OdooUser {
 	partner_id: [number, string] | false;
 }
 
+export interface OdooTag {
+	id: number;
+	name: string;
+}
+
+// project.task priority: "0" = normal, "1" = high (starred)
+export type TaskPriority = "0" | "1";
+
+export interface OdooEmployee {
+	id: number;
+	name: string;
+}
+
+export interface TimesheetEntry {
+	taskId: number;
+	projectId?: number;
+	employeeId: number;
+	hours: number;
+	description: string;
+	date: string; // YYYY-MM-DD
+}
+
 export interface AuthorInfo {
 	displayName: string;
 	odooUserId?: number;
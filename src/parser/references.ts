@@ -1,37 +1,391 @@
-export type ReferenceAction = "close" | "ref";
+// close: done on merge; part: one piece of the task; related: linked context; ref: plain mention
+export type ReferenceAction = "close" | "part" | "related" | "ref";
+
+import { splitTrailers, type Trailer } from "./trailers.js";
+
+// Where in a commit/PR a reference was found
+export type ReferenceSource = "title" | "body" | "trailer" | "branch";
+
+// Task key prefix -> Odoo project.project ID (null = task may belong to any project)
+export type TaskPrefixMapping = Record<string, number | null>;
+
+export const DEFAULT_TASK_PREFIXES: TaskPrefixMapping = { ODP: null };
 
 export interface TaskReference {
 	action: ReferenceAction;
 	taskId: number;
+	// Key prefix (e.g. ODP); absent for task URLs, whose taskId is always the database ID
+	prefix?: string;
+	projectId?: number;
+	source?: ReferenceSource;
+}
+
+export interface ReferenceParserOptions {
+	prefixes?: TaskPrefixMapping;
+	odooUrl?: string; // Odoo base URL; links to tasks on this instance count as references
 }
 
-const CLOSE_KEYWORDS = ["closes", "fixes", "resolves"];
-const REF_KEYWORDS = ["refs", "references"];
+// GitHub's closing keywords plus relationship phrases; multi-word phrases allow any whitespace
+const KEYWORDS: Record<ReferenceAction, string[]> = {
+	close: ["close", "closes", "closed", "fix", "fixes", "fixed", "resolve", "resolves", "resolved"],
+	part: ["part of"],
+	related: ["related to", "relates to"],
+	ref: ["ref", "refs", "references"],
+};
 
-const REFERENCE_PATTERN = new RegExp(
-	`(?:(${[...CLOSE_KEYWORDS, ...REF_KEYWORDS].join("|")})\\s+)?ODP-(\\d+)`,
-	"gi",
+const KEYWORD_ACTIONS = new Map<string, ReferenceAction>(
+	Object.entries(KEYWORDS).flatMap(([action, keywords]) =>
+		keywords.map((keyword): [string, ReferenceAction] => [keyword, action as ReferenceAction]),
+	),
 );
 
-export function parseReferences(text: string): TaskReference[] {
-	const references = new Map<number, TaskReference>();
+// Trailer tokens declaring a task link, besides the keywords above (Closes:, Part-of:, …)
+const TASK_TRAILER_TOKENS = ["odoo-task", "task"];
 
-	for (const match of text.matchAll(REFERENCE_PATTERN)) {
-		const keyword = match[1]?.toLowerCase();
-		const taskId = Number.parseInt(match[2], 10);
-		const action: ReferenceAction = keyword && CLOSE_KEYWORDS.includes(keyword) ? "close" : "ref";
-		const existing = references.get(taskId);
+// Stronger relationships win when the same task is referenced more than once
+const ACTION_PRIORITY: Record<ReferenceAction, number> = { close: 3, part: 2, related: 1, ref: 0 };
 
-		if (!existing) {
-			references.set(taskId, { action, taskId });
+const KEYWORD_PATTERN = [...KEYWORD_ACTIONS.keys()]
+	.sort((a, b) => b.length - a.length)
+	.map((keyword) => keyword.replace(/ /g, "\\s+"))
+	.join("|");
+
+// Keyword followed by an optional colon: "Fixes ODP-1", "Part of: ODP-2"
+const KEYWORD_PREFIX = `(?<![A-Za-z])(${KEYWORD_PATTERN}):?\\s+`;
+
+const SKIP_DIRECTIVE_PATTERN = /\[(?:skip|no)[ -]odoo\]/i;
+
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})/;
+const FENCE_CLOSE_PATTERN = /^ {0,3}(`{3,}|~{3,})\s*$/;
+const HTML_COMMENT_PATTERN = /<!--[\s\S]*?(?:-->|$)/g;
+const CODE_SPAN_PATTERN = /(?<!`)(`+)(?!`)[\s\S]*?(?<!`)\1(?!`)/g;
+const BLOCKQUOTE_PATTERN = /^ {0,3}>.*$/gm;
+
+// Removes Markdown regions that quote rather than declare references: fenced code blocks,
+// HTML comments (PR templates), inline code spans and blockquotes (quoted replies)
+export function stripIgnoredMarkdown(text: string): string {
+	const lines: string[] = [];
+	let fence: string | null = null;
+
+	for (const line of text.split("\n")) {
+		const marker = line.match(FENCE_PATTERN)?.[1];
+		if (fence) {
+			// A fence closes with the same character, at least as long, and nothing after it
+			const closing = line.match(FENCE_CLOSE_PATTERN)?.[1];
+			if (closing && closing[0] === fence[0] && closing.length >= fence.length) {
+				fence = null;
+			}
+			lines.push("");
 			continue;
 		}
+		if (marker) {
+			fence = marker;
+			lines.push("");
+			continue;
+		}
+		lines.push(line);
+	}
+
+	return lines
+		.join("\n")
+		.replace(HTML_COMMENT_PATTERN, " ")
+		.replace(CODE_SPAN_PATTERN, " ")
+		.replace(BLOCKQUOTE_PATTERN, "");
+}
+
+// [skip odoo] / [no odoo] in a commit message or PR title suppresses all Odoo updates for it
+export function hasSkipDirective(text: string): boolean {
+	return SKIP_DIRECTIVE_PATTERN.test(stripIgnoredMarkdown(text));
+}
+
+function escapeRegExp(value: string): string {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function buildKeyPattern(prefixes: string[]): string {
+	// Longest prefixes first so e.g. "OPSX" is not matched as "OPS"
+	const alternatives = [...prefixes]
+		.sort((a, b) => b.length - a.length)
+		.map(escapeRegExp)
+		.join("|");
+	// Keys end at the number; ODP-6x and the address ODP-1@example.com are not keys
+	return `(?<![A-Za-z0-9])(?:${alternatives})-\\d+(?![A-Za-z0-9@])`;
+}
+
+// Keyword followed by a list of keys: "Fixes ODP-1, ODP-2 and ODP-3"
+function buildKeywordListPattern(keyPattern: string): RegExp {
+	const separator = "\\s*(?:,\\s*(?:and\\b|&)?|\\band\\b|&)\\s*";
+	return new RegExp(`${KEYWORD_PREFIX}(${keyPattern}(?:${separator}${keyPattern})*)`, "gi");
+}
+
+function buildUrlPattern(odooUrl: string): RegExp | null {
+	let base: URL;
+	try {
+		base = new URL(odooUrl);
+	} catch {
+		return null;
+	}
+	const basePath = base.pathname.replace(/\/+$/, "");
+	// Optional keyword, optionally followed by a Markdown link label: Closes [Task](https://…)
+	return new RegExp(
+		`(?:${KEYWORD_PREFIX}(?:\\[[^\\]]*\\]\\()?)?` +
+			`https?://${escapeRegExp(base.host)}${escapeRegExp(basePath)}(/[^\\s)\\]>"'<]*)`,
+		"gi",
+	);
+}
+
+// Extracts the task from /web#id=123&model=project.task or /odoo/project/5/tasks/123 style paths
+function parseTaskUrl(path: string): { taskId: number; projectId?: number } | null {
+	const legacy = path.match(/^\/web(?:\?[^#]*)?#(.+)$/);
+	if (legacy) {
+		const params = new URLSearchParams(legacy[1]);
+		const id = params.get("id");
+		if (params.get("model") !== "project.task" || !id || !/^\d+$/.test(id)) {
+			return null;
+		}
+		return { taskId: Number.parseInt(id, 10) };
+	}
+
+	const modern = path.match(
+		/^\/odoo\/(?:[\w.-]+\/\d+\/)*(?:tasks|project\.task|my-tasks)\/(\d+)\b/,
+	);
+	if (modern) {
+		const project = path.match(/^\/odoo\/project\/(\d+)\/tasks\//);
+		return {
+			taskId: Number.parseInt(modern[1], 10),
+			projectId: project ? Number.parseInt(project[1], 10) : undefined,
+		};
+	}
+
+	return null;
+}
+
+// Task URLs have no key; "#77" would be linked by GitHub to issue 77, so they read "task 77"
+export function formatTaskKey(ref: Pick<TaskReference, "prefix" | "taskId">): string {
+	return ref.prefix ? `${ref.prefix}-${ref.taskId}` : `task ${ref.taskId}`;
+}
+
+function toAction(keyword: string | undefined): ReferenceAction {
+	if (!keyword) {
+		return "ref";
+	}
+	return KEYWORD_ACTIONS.get(keyword.toLowerCase().replace(/\s+/g, " ")) ?? "ref";
+}
+
+function addReference(references: Map<string, TaskReference>, ref: TaskReference): void {
+	const key = formatTaskKey(ref);
+	const existing = references.get(key);
+
+	if (!existing) {
+		references.set(key, ref);
+		return;
+	}
+
+	if (ACTION_PRIORITY[ref.action] > ACTION_PRIORITY[existing.action]) {
+		references.set(key, { ...existing, action: ref.action, source: ref.source });
+	}
+}
+
+// Combines reference lists, keeping the first occurrence of each task and the strongest action
+export function mergeReferences(...groups: TaskReference[][]): TaskReference[] {
+	const references = new Map<string, TaskReference>();
+	for (const ref of groups.flat()) {
+		addReference(references, ref);
+	}
+	return [...references.values()];
+}
+
+export function parseReferences(
+	text: string,
+	options: ReferenceParserOptions = {},
+): TaskReference[] {
+	const projectsByPrefix = new Map(
+		Object.entries(options.prefixes ?? DEFAULT_TASK_PREFIXES).map(([prefix, projectId]) => [
+			prefix.toUpperCase(),
+			projectId,
+		]),
+	);
+	const searchable = stripIgnoredMarkdown(text);
+	// Position in the text -> reference, so results keep the order of appearance
+	const found = new Map<number, TaskReference>();
+
+	if (projectsByPrefix.size > 0) {
+		const keyPattern = buildKeyPattern([...projectsByPrefix.keys()]);
+		const toReference = (key: string, action: ReferenceAction): TaskReference => {
+			const [prefix, id] = key.toUpperCase().split("-");
+			return {
+				action,
+				taskId: Number.parseInt(id, 10),
+				prefix,
+				projectId: projectsByPrefix.get(prefix) ?? undefined,
+			};
+		};
+
+		for (const match of searchable.matchAll(buildKeywordListPattern(keyPattern))) {
+			const action = toAction(match[1]);
+			const listStart = (match.index ?? 0) + match[0].length - match[2].length;
+			for (const key of match[2].matchAll(new RegExp(keyPattern, "gi"))) {
+				found.set(listStart + (key.index ?? 0), toReference(key[0], action));
+			}
+		}
+
+		// Keys outside keyword lists are plain mentions
+		for (const key of searchable.matchAll(new RegExp(keyPattern, "gi"))) {
+			const index = key.index ?? 0;
+			if (!found.has(index)) {
+				found.set(index, toReference(key[0], "ref"));
+			}
+		}
+	}
 
-		// Prefer close semantics if the same task appears multiple times
-		if (existing.action === "ref" && action === "close") {
-			references.set(taskId, { action: "close", taskId });
+	const urlPattern = options.odooUrl ? buildUrlPattern(options.odooUrl) : null;
+	if (urlPattern) {
+		for (const match of searchable.matchAll(urlPattern)) {
+			const task = parseTaskUrl(match[2]);
+			if (task) {
+				found.set(match.index ?? 0, { action: toAction(match[1]), ...task });
+			}
 		}
 	}
 
+	const references = new Map<string, TaskReference>();
+	for (const index of [...found.keys()].sort((a, b) => a - b)) {
+		addReference(references, found.get(index) as TaskReference);
+	}
 	return [...references.values()];
 }
+
+function toTrailerAction(trailer: Trailer): ReferenceAction | null {
+	const token = trailer.token.toLowerCase();
+	if (TASK_TRAILER_TOKENS.includes(token)) {
+		return "ref";
+	}
+	return KEYWORD_ACTIONS.get(token.replace(/-/g, " ")) ?? null;
+}
+
+function withSource(refs: TaskReference[], source: ReferenceSource): TaskReference[] {
+	return refs.map((ref) => ({ ...ref, source }));
+}
+
+// Parses a commit message or PR title/body, recording which part each reference came from.
+// Trailers ("Odoo-Task: ODP-55", "Closes: ODP-55") apply their token's action to every task
+// in the value and, being explicit, override free-text mentions of the same task. Link-only
+// trailers (Odoo-Task:, Task:) declare no relationship, so they keep a free-text one.
+export function parseMessageReferences(
+	title: string,
+	body: string,
+	options: ReferenceParserOptions = {},
+): TaskReference[] {
+	// Comments and code go first, so a trailer-like paragraph inside them is not a trailer
+	const { body: text, trailers } = splitTrailers(
+		stripIgnoredMarkdown(body),
+		(trailer) => toTrailerAction(trailer) !== null,
+	);
+	const titleRefs = parseReferences(title, options);
+	const bodyRefs = parseReferences(text, options);
+	const freeTextActions = new Map(
+		mergeReferences(titleRefs, bodyRefs).map((ref) => [formatTaskKey(ref), ref.action]),
+	);
+	const trailerRefs = trailers.flatMap((trailer) => {
+		const action = toTrailerAction(trailer) as ReferenceAction;
+		return parseReferences(trailer.value, options).map((ref) => ({
+			...ref,
+			action: action === "ref" ? (freeTextActions.get(formatTaskKey(ref)) ?? action) : action,
+		}));
+	});
+
+	const declared = new Set(trailerRefs.map(formatTaskKey));
+	const freeText = (refs: TaskReference[]) =>
+		refs.filter((ref) => !declared.has(formatTaskKey(ref)));
+
+	return mergeReferences(
+		withSource(freeText(titleRefs), "title"),
+		withSource(freeText(bodyRefs), "body"),
+		withSource(trailerRefs, "trailer"),
+	);
+}
+
+// Task keys in branch names (feature/ODP-431-login-fix) only ever link, never close
+export function parseBranchReferences(
+	ref: string,
+	options: ReferenceParserOptions = {},
+): TaskReference[] {
+	if (!ref.startsWith("refs/heads/") && ref.startsWith("refs/")) {
+		return [];
+	}
+	const branch = ref.replace(/^refs\/heads\//, "");
+	return parseReferences(branch, { prefixes: options.prefixes }).map((reference) => ({
+		...reference,
+		action: "ref",
+		source: "branch",
+	}));
+}
+
+// Smart commit commands understood after a task key: "ODP-123 #time 1h30m Investigated login bug"
+export type SmartCommandName = "time" | "tag" | "priority" | "assign" | "deadline";
+
+export interface SmartCommand {
+	name: SmartCommandName;
+	args: string;
+	refs: TaskReference[]; // Task keys preceding the command on the same line
+}
+
+const SMART_COMMAND_NAMES: SmartCommandName[] = ["time", "tag", "priority", "assign", "deadline"];
+
+const SMART_COMMAND_PATTERN = /(?<!\S)#([A-Za-z]+)\b/g;
+
+// Jira-style durations: 1 week = 5 days, 1 day = 8 hours
+const DURATION_UNIT_HOURS: Record<string, number> = { w: 40, d: 8, h: 1, m: 1 / 60 };
+
+const DURATION_PATTERN = /^((?:\d+(?:\.\d+)?[wdhm](?![A-Za-z])\s*)+)(.*)$/i;
+
+// Parses "1w 2d 3h 15m" or "1h30m" into hours; returns null if the value has no duration
+export function parseDuration(value: string): { hours: number; rest: string } | null {
+	const match = value.trim().match(DURATION_PATTERN);
+	if (!match) {
+		return null;
+	}
+
+	let hours = 0;
+	for (const part of match[1].matchAll(/(\d+(?:\.\d+)?)([wdhm])/gi)) {
+		hours += Number.parseFloat(part[1]) * DURATION_UNIT_HOURS[part[2].toLowerCase()];
+	}
+	return { hours, rest: match[2].trim() };
+}
+
+// Finds smart commit commands. Each command applies to the task keys written before the first
+// command on its line and takes the text up to the next command (or line end) as arguments.
+export function parseSmartCommands(
+	text: string,
+	options: ReferenceParserOptions = {},
+): SmartCommand[] {
+	const commands: SmartCommand[] = [];
+
+	for (const line of stripIgnoredMarkdown(text).split("\n")) {
+		const matches = [...line.matchAll(SMART_COMMAND_PATTERN)].filter((match) =>
+			SMART_COMMAND_NAMES.includes(match[1].toLowerCase() as SmartCommandName),
+		);
+		if (matches.length === 0) {
+			continue;
+		}
+
+		const refs = parseReferences(line.slice(0, matches[0].index), {
+			prefixes: options.prefixes,
+		}).map((ref) => ({ ...ref, action: "ref" as const }));
+		if (refs.length === 0) {
+			continue;
+		}
+
+		matches.forEach((match, i) => {
+			const start = (match.index ?? 0) + match[0].length;
+			const end = i + 1 < matches.length ? matches[i + 1].index : line.length;
+			commands.push({
+				name: match[1].toLowerCase() as SmartCommandName,
+				args: line.slice(start, end).trim(),
+				refs,
+			});
+		});
+	}
+
+	return commands;
+}
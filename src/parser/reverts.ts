@@ -0,0 +1,32 @@
+// What a revert commit or PR undoes, as written by `git revert` and GitHub's revert button
+export interface Revert {
+	sha?: string; // From "This reverts commit <sha>."
+	title?: string; // Reverted commit or PR title, from a `Revert "…"` title
+	pullRequest?: number; // From GitHub's "Reverts owner/repo#N" description
+}
+
+// Squash merges of a revert PR append the PR number: Revert "Fix login (#12)" (#13)
+const REVERT_TITLE_PATTERN = /^Revert\s+"(.+)"(?:\s+\(#\d+\))?$/;
+const REVERTS_COMMIT_PATTERN = /^This reverts commit ([0-9a-f]{7,40})\b/im;
+const REVERTS_PULL_REQUEST_PATTERN = /^Reverts\s+(?:[\w.-]+\/[\w.-]+)?#(\d+)\b/im;
+
+// The quoted original title of a `Revert "…"` title, or null for other titles
+export function parseRevertedTitle(title: string): string | null {
+	return title.trim().match(REVERT_TITLE_PATTERN)?.[1] ?? null;
+}
+
+export function parseRevert(title: string, body: string): Revert | null {
+	const revertedTitle = parseRevertedTitle(title);
+	const sha = body.match(REVERTS_COMMIT_PATTERN)?.[1];
+	const pullRequest = body.match(REVERTS_PULL_REQUEST_PATTERN)?.[1];
+
+	if (!revertedTitle && !sha && !pullRequest) {
+		return null;
+	}
+
+	return {
+		sha,
+		title: revertedTitle ?? undefined,
+		pullRequest: pullRequest ? Number.parseInt(pullRequest, 10) : undefined,
+	};
+}
@@ -0,0 +1,60 @@
+export interface Trailer {
+	token: string;
+	value: string;
+}
+
+export interface TrailerSplit {
+	body: string; // Message text with trailer blocks removed
+	trailers: Trailer[];
+}
+
+// RFC 822-style "Token: value" line; continuation lines start with whitespace
+const TRAILER_LINE_PATTERN = /^([A-Za-z0-9][A-Za-z0-9-]*)[ \t]*:[ \t]*(\S.*)$/;
+const CONTINUATION_PATTERN = /^[ \t]+\S/;
+
+function parseTrailerBlock(paragraph: string): Trailer[] | null {
+	const trailers: Trailer[] = [];
+
+	for (const line of paragraph.split("\n")) {
+		const match = line.match(TRAILER_LINE_PATTERN);
+		if (match) {
+			trailers.push({ token: match[1], value: match[2].trim() });
+			continue;
+		}
+		if (trailers.length > 0 && CONTINUATION_PATTERN.test(line)) {
+			trailers[trailers.length - 1].value += ` ${line.trim()}`;
+			continue;
+		}
+		return null;
+	}
+
+	return trailers.length > 0 ? trailers : null;
+}
+
+// Splits trailer blocks (paragraphs made only of "Token: value" lines) from a message body.
+// Besides the final footer, squash merges keep each sub-commit's trailers in its own paragraph,
+// so every trailer-only paragraph counts.
+export function splitTrailers(
+	body: string,
+	isTrailer: (trailer: Trailer) => boolean = () => true,
+): TrailerSplit {
+	const kept: string[] = [];
+	const trailers: Trailer[] = [];
+
+	for (const paragraph of body.replace(/\r\n/g, "\n").split(/\n[ \t]*\n/)) {
+		const block = parseTrailerBlock(paragraph.trim());
+		if (!block) {
+			kept.push(paragraph);
+			continue;
+		}
+
+		// Unrecognized trailers stay in the body so their text is still searched
+		const other = block.filter((trailer) => !isTrailer(trailer));
+		trailers.push(...block.filter(isTrailer));
+		if (other.length > 0) {
+			kept.push(other.map((trailer) => `${trailer.token}: ${trailer.value}`).join("\n"));
+		}
+	}
+
+	return { body: kept.join("\n\n"), trailers };
+}
@@ -0,0 +1,45 @@
+// A CI run's outcome for one commit, as last noted on the referenced tasks
+export interface CheckRunKey {
+	repository: string; // owner/repo
+	sha: string;
+	workflow: string; // Workflow or check suite app name
+}
+
+// Last noted conclusion per commit and workflow, so re-runs with the same outcome stay quiet
+export interface CheckStore {
+	getConclusion(run: CheckRunKey): Promise<string | null>;
+	saveConclusion(run: CheckRunKey, conclusion: string): Promise<void>;
+}
+
+// Re-runs happen within days of the push; older entries are dropped by KV
+const CHECK_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+function formatKey({ repository, sha, workflow }: CheckRunKey): string {
+	return `ci:${repository}:${sha}:${workflow}`;
+}
+
+// Cloudflare KV backed store, shares the namespace of the PR links under a "ci:" prefix
+export class KVCheckStore implements CheckStore {
+	constructor(private kv: KVNamespace) {}
+
+	async getConclusion(run: CheckRunKey): Promise<string | null> {
+		return this.kv.get(formatKey(run));
+	}
+
+	async saveConclusion(run: CheckRunKey, conclusion: string): Promise<void> {
+		await this.kv.put(formatKey(run), conclusion, { expirationTtl: CHECK_TTL_SECONDS });
+	}
+}
+
+// In-memory stand-in for tests and local development
+export class MemoryCheckStore implements CheckStore {
+	private conclusions = new Map<string, string>();
+
+	async getConclusion(run: CheckRunKey): Promise<string | null> {
+		return this.conclusions.get(formatKey(run)) ?? null;
+	}
+
+	async saveConclusion(run: CheckRunKey, conclusion: string): Promise<void> {
+		this.conclusions.set(formatKey(run), conclusion);
+	}
+}
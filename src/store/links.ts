@@ -0,0 +1,86 @@
+import type { ReferenceAction } from "../parser/references.js";
+
+export type PullRequestState = "open" | "merged" | "closed";
+
+// A PR referencing a task, keyed by repository and number
+export interface PullRequestLink {
+	repository: string; // owner/repo
+	number: number;
+	url: string;
+	action: ReferenceAction; // Relationship the PR declares to the task
+	state: PullRequestState;
+}
+
+// Which PRs reference which Odoo task (by database ID)
+export interface LinkStore {
+	getLinks(taskId: number): Promise<PullRequestLink[]>;
+	// Adds or updates the PR's link and returns all links of the task
+	saveLink(taskId: number, link: PullRequestLink): Promise<PullRequestLink[]>;
+	// Forgets the PR, e.g. when its description no longer references the task
+	removeLink(taskId: number, repository: string, number: number): Promise<void>;
+}
+
+function isSamePullRequest(a: PullRequestLink, b: PullRequestLink): boolean {
+	return a.repository === b.repository && a.number === b.number;
+}
+
+function withoutLink(
+	links: PullRequestLink[],
+	repository: string,
+	number: number,
+): PullRequestLink[] {
+	return links.filter((link) => !(link.repository === repository && link.number === number));
+}
+
+function upsertLink(links: PullRequestLink[], link: PullRequestLink): PullRequestLink[] {
+	return [...links.filter((existing) => !isSamePullRequest(existing, link)), link];
+}
+
+// Cloudflare KV backed store, one JSON list per task. Concurrent deliveries for the same task
+// may overwrite each other's update; the next event for the PR repairs the entry.
+export class KVLinkStore implements LinkStore {
+	constructor(private kv: KVNamespace) {}
+
+	private key(taskId: number): string {
+		return `task:${taskId}:prs`;
+	}
+
+	async getLinks(taskId: number): Promise<PullRequestLink[]> {
+		return (await this.kv.get<PullRequestLink[]>(this.key(taskId), "json")) ?? [];
+	}
+
+	async saveLink(taskId: number, link: PullRequestLink): Promise<PullRequestLink[]> {
+		const links = upsertLink(await this.getLinks(taskId), link);
+		await this.kv.put(this.key(taskId), JSON.stringify(links));
+		return links;
+	}
+
+	async removeLink(taskId: number, repository: string, number: number): Promise<void> {
+		const links = await this.getLinks(taskId);
+		const remaining = withoutLink(links, repository, number);
+		if (remaining.length === 0) {
+			await this.kv.delete(this.key(taskId));
+		} else if (remaining.length < links.length) {
+			await this.kv.put(this.key(taskId), JSON.stringify(remaining));
+		}
+	}
+}
+
+// In-memory stand-in for tests and local development
+export class MemoryLinkStore implements LinkStore {
+	private links = new Map<number, PullRequestLink[]>();
+
+	async getLinks(taskId: number): Promise<PullRequestLink[]> {
+		return this.links.get(taskId) ?? [];
+	}
+
+	async saveLink(taskId: number, link: PullRequestLink): Promise<PullRequestLink[]> {
+		const links = upsertLink(this.links.get(taskId) ?? [], link);
+		this.links.set(taskId, links);
+		return links;
+	}
+
+	async removeLink(taskId: number, repository: string, number: number): Promise<void> {
+		this.links.set(taskId, withoutLink(this.links.get(taskId) ?? [], repository, number));
+	}
+}
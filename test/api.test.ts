@@ -0,0 +1,142 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+	compareCommits,
+	getCommit,
+	getPullRequest,
+	listCommitPullRequests,
+	listPullRequestCommits,
+} from "../src/github/api.js";
+
+describe("listPullRequestCommits", () => {
+	let fetchSpy: ReturnType<typeof vi.spyOn>;
+
+	afterEach(() => {
+		fetchSpy?.mockRestore();
+	});
+
+	const config = { token: "test-token" };
+	const commit = (sha: string) => ({
+		sha,
+		html_url: `https://github.com/owner/repo/commit/${sha}`,
+		commit: { message: `Commit ${sha}`, author: { name: "Test User" } },
+		author: null,
+		parents: [],
+	});
+
+	it("requests the pull request commits with authentication", async () => {
+		fetchSpy = vi
+			.spyOn(global, "fetch")
+			.mockResolvedValue(new Response(JSON.stringify([commit("a1")])));
+
+		const commits = await listPullRequestCommits(config, "owner", "repo", 42);
+
+		expect(commits.map((c) => c.sha)).toEqual(["a1"]);
+		expect(fetchSpy).toHaveBeenCalledWith(
+			"https://api.github.com/repos/owner/repo/pulls/42/commits?per_page=100",
+			expect.objectContaining({
+				method: "GET",
+				headers: expect.objectContaining({
+					Authorization: "Bearer test-token",
+					"X-GitHub-Api-Version": "2022-11-28",
+				}),
+			}),
+		);
+	});
+
+	it("follows the Link header across pages", async () => {
+		const page2 = "https://api.github.com/repositories/1/pulls/42/commits?per_page=100&page=2";
+		fetchSpy = vi
+			.spyOn(global, "fetch")
+			.mockResolvedValueOnce(
+				new Response(JSON.stringify([commit("a1"), commit("a2")]), {
+					headers: { link: `<${page2}>; rel="next", <${page2}>; rel="last"` },
+				}),
+			)
+			.mockResolvedValueOnce(new Response(JSON.stringify([commit("a3")])));
+
+		const commits = await listPullRequestCommits(config, "owner", "repo", 42);
+
+		expect(commits.map((c) => c.sha)).toEqual(["a1", "a2", "a3"]);
+		expect(fetchSpy).toHaveBeenCalledTimes(2);
+		expect(fetchSpy).toHaveBeenLastCalledWith(page2, expect.anything());
+	});
+
+	it("stops following pages after the page limit", async () => {
+		fetchSpy = vi.spyOn(global, "fetch").mockImplementation(
+			async () =>
+				new Response(JSON.stringify([commit("a1")]), {
+					headers: { link: '<https://api.github.com/next>; rel="next"' },
+				}),
+		);
+		const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+		const commits = await listPullRequestCommits(config, "owner", "repo", 42);
+
+		expect(commits).toHaveLength(10);
+		expect(warnSpy).toHaveBeenCalled();
+		warnSpy.mockRestore();
+	});
+
+	it("throws on non-OK responses", async () => {
+		fetchSpy = vi
+			.spyOn(global, "fetch")
+			.mockResolvedValue(new Response("Bad credentials", { status: 401 }));
+
+		await expect(listPullRequestCommits(config, "owner", "repo", 42)).rejects.toThrow(
+			"GitHub API error: 401 Bad credentials",
+		);
+	});
+});
+
+describe("compareCommits", () => {
+	let fetchSpy: ReturnType<typeof vi.spyOn>;
+
+	afterEach(() => {
+		fetchSpy?.mockRestore();
+	});
+
+	it("collects the commits of every compare page", async () => {
+		const page2 = "https://api.github.com/repositories/1/compare/a...b?per_page=100&page=2";
+		fetchSpy = vi
+			.spyOn(global, "fetch")
+			.mockResolvedValueOnce(
+				new Response(JSON.stringify({ total_commits: 2, commits: [{ sha: "c1" }] }), {
+					headers: { link: `<${page2}>; rel="next"` },
+				}),
+			)
+			.mockResolvedValueOnce(new Response(JSON.stringify({ commits: [{ sha: "c2" }] })));
+
+		const commits = await compareCommits({ token: "t" }, "owner", "repo", "a", "b");
+
+		expect(commits.map((c) => c.sha)).toEqual(["c1", "c2"]);
+		expect(fetchSpy).toHaveBeenNthCalledWith(
+			1,
+			"https://api.github.com/repos/owner/repo/compare/a...b?per_page=100",
+			expect.anything(),
+		);
+	});
+});
+
+describe("single resource lookups", () => {
+	let fetchSpy: ReturnType<typeof vi.spyOn>;
+
+	afterEach(() => {
+		fetchSpy?.mockRestore();
+	});
+
+	it("requests commits, pull requests and a commit's pull requests", async () => {
+		fetchSpy = vi
+			.spyOn(global, "fetch")
+			.mockImplementation(async () => new Response(JSON.stringify([])));
+
+		await getCommit({ token: "t" }, "owner", "repo", "abc123");
+		await getPullRequest({ token: "t" }, "owner", "repo", 42);
+		await listCommitPullRequests({ token: "t" }, "owner", "repo", "abc123");
+
+		expect(fetchSpy.mock.calls.map((call: unknown[]) => call[0])).toEqual([
+			"https://api.github.com/repos/owner/repo/commits/abc123",
+			"https://api.github.com/repos/owner/repo/pulls/42",
+			"https://api.github.com/repos/owner/repo/commits/abc123/pulls?per_page=100",
+		]);
+	});
+});
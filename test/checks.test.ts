@@ -0,0 +1,198 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+	type CheckSuiteEvent,
+	handleCheckSuiteEvent,
+	handleWorkflowRunEvent,
+	type WorkflowRunEvent,
+} from "../src/github/checks.js";
+import { KVCheckStore, MemoryCheckStore } from "../src/store/checks.js";
+import { createMockOdooClient, githubConfig, spyOnFetch } from "./helpers.js";
+
+const pullRequest = (number: number, title: string, state = "open") => ({
+	number,
+	title,
+	body: null,
+	html_url: `https://github.com/owner/repo/pull/${number}`,
+	state,
+	merged_at: null,
+	head: { ref: "feature/test" },
+});
+
+describe("handleWorkflowRunEvent", () => {
+	const baseRunEvent: WorkflowRunEvent = {
+		action: "completed",
+		workflow_run: {
+			name: "CI",
+			head_sha: "abc1234567890",
+			conclusion: "failure",
+			html_url: "https://github.com/owner/repo/actions/runs/7",
+		},
+		repository: {
+			full_name: "owner/repo",
+			html_url: "https://github.com/owner/repo",
+		},
+	};
+
+	function mockPullRequests(prs: ReturnType<typeof pullRequest>[]) {
+		return spyOnFetch().mockImplementation(async () => {
+			return new Response(JSON.stringify(prs));
+		});
+	}
+
+	it("notes the outcome on tasks referenced by the commit's open PRs", async () => {
+		const fetchSpy = mockPullRequests([
+			pullRequest(42, "Fix login ODP-1"),
+			pullRequest(40, "Old ODP-2", "closed"),
+		]);
+		const odoo = createMockOdooClient();
+
+		const result = await handleWorkflowRunEvent(baseRunEvent, odoo, githubConfig);
+
+		expect(fetchSpy).toHaveBeenCalledWith(
+			"https://api.github.com/repos/owner/repo/commits/abc1234567890/pulls?per_page=100",
+			expect.anything(),
+		);
+		expect(result).toEqual({ processed: 1, errors: [] });
+		expect(odoo.addMessage).toHaveBeenCalledTimes(1);
+		const [taskId, message] = vi.mocked(odoo.addMessage).mock.calls[0];
+		expect(taskId).toBe(1);
+		expect(message).toContain(
+			'<a href="https://github.com/owner/repo/actions/runs/7">CI</a> ❌ failed',
+		);
+		expect(message).toContain('PR <a href="https://github.com/owner/repo/pull/42">#42</a>');
+		expect(message).toContain(
+			'<a href="https://github.com/owner/repo/commit/abc1234567890">abc1234</a>',
+		);
+	});
+
+	it("skips PRs with a [skip odoo] directive in the title", async () => {
+		mockPullRequests([pullRequest(42, "WIP ODP-1 [skip odoo]")]);
+		const odoo = createMockOdooClient();
+
+		const result = await handleWorkflowRunEvent(baseRunEvent, odoo, githubConfig);
+
+		expect(result).toEqual({ processed: 0, errors: [] });
+		expect(odoo.addMessage).not.toHaveBeenCalled();
+	});
+
+	it("suppresses re-runs with the same outcome", async () => {
+		mockPullRequests([pullRequest(42, "Fix login ODP-1")]);
+		const odoo = createMockOdooClient();
+		const checks = new MemoryCheckStore();
+
+		await handleWorkflowRunEvent(baseRunEvent, odoo, githubConfig, checks);
+		await handleWorkflowRunEvent(baseRunEvent, odoo, githubConfig, checks);
+		expect(odoo.addMessage).toHaveBeenCalledTimes(1);
+
+		const passed = {
+			...baseRunEvent,
+			workflow_run: { ...baseRunEvent.workflow_run, conclusion: "success" },
+		};
+		await handleWorkflowRunEvent(passed, odoo, githubConfig, checks);
+		expect(odoo.addMessage).toHaveBeenCalledTimes(2);
+		expect(vi.mocked(odoo.addMessage).mock.calls[1][1]).toContain("✅ passed");
+
+		// Another workflow on the same commit is noted separately
+		const lint = { ...passed, workflow_run: { ...passed.workflow_run, name: "Lint" } };
+		await handleWorkflowRunEvent(lint, odoo, githubConfig, checks);
+		expect(odoo.addMessage).toHaveBeenCalledTimes(3);
+	});
+
+	it("ignores runs that are not completed or were skipped", async () => {
+		const fetchSpy = mockPullRequests([pullRequest(42, "Fix login ODP-1")]);
+		const odoo = createMockOdooClient();
+
+		await handleWorkflowRunEvent({ ...baseRunEvent, action: "requested" }, odoo, githubConfig);
+		await handleWorkflowRunEvent(
+			{ ...baseRunEvent, workflow_run: { ...baseRunEvent.workflow_run, conclusion: "skipped" } },
+			odoo,
+			githubConfig,
+		);
+
+		expect(fetchSpy).not.toHaveBeenCalled();
+		expect(odoo.addMessage).not.toHaveBeenCalled();
+	});
+
+	it("reports a missing token and GitHub failures", async () => {
+		const odoo = createMockOdooClient();
+
+		const withoutToken = await handleWorkflowRunEvent(baseRunEvent, odoo, null);
+		expect(withoutToken.errors).toEqual([
+			"CI: GITHUB_TOKEN required to find the PRs of abc1234567890",
+		]);
+
+		spyOnFetch().mockResolvedValue(new Response("Not Found", { status: 404 }));
+		const failed = await handleWorkflowRunEvent(baseRunEvent, odoo, githubConfig);
+		expect(failed.errors).toEqual(["GitHub PR lookup failed: GitHub API error: 404 Not Found"]);
+	});
+});
+
+describe("handleCheckSuiteEvent", () => {
+	const baseSuiteEvent: CheckSuiteEvent = {
+		action: "completed",
+		check_suite: {
+			head_sha: "abc1234567890",
+			conclusion: "timed_out",
+			app: { slug: "circleci-checks", name: "CircleCI Checks" },
+		},
+		repository: {
+			full_name: "owner/repo",
+			html_url: "https://github.com/owner/repo",
+		},
+	};
+
+	it("notes the suite outcome with a link to the commit's checks", async () => {
+		spyOnFetch().mockResolvedValue(new Response(JSON.stringify([pullRequest(42, "Fix ODP-1")])));
+		const odoo = createMockOdooClient();
+
+		await handleCheckSuiteEvent(baseSuiteEvent, odoo, githubConfig);
+
+		expect(vi.mocked(odoo.addMessage).mock.calls[0][1]).toContain(
+			'<a href="https://github.com/owner/repo/commit/abc1234567890/checks">CircleCI Checks</a> ⏱️ timed out',
+		);
+	});
+
+	it("leaves GitHub Actions suites to workflow_run", async () => {
+		const fetchSpy = spyOnFetch();
+		const odoo = createMockOdooClient();
+
+		await handleCheckSuiteEvent(
+			{
+				...baseSuiteEvent,
+				check_suite: {
+					...baseSuiteEvent.check_suite,
+					app: { slug: "github-actions", name: "GitHub Actions" },
+				},
+			},
+			odoo,
+			githubConfig,
+		);
+
+		expect(fetchSpy).not.toHaveBeenCalled();
+		expect(odoo.addMessage).not.toHaveBeenCalled();
+	});
+});
+
+describe("KVCheckStore", () => {
+	it("stores conclusions per commit and workflow with an expiry", async () => {
+		const values = new Map<string, string>();
+		const put = vi.fn(async (key: string, value: string) => {
+			values.set(key, value);
+		});
+		const kv = {
+			get: async (key: string) => values.get(key) ?? null,
+			put,
+		} as unknown as KVNamespace;
+		const store = new KVCheckStore(kv);
+		const run = { repository: "owner/repo", sha: "abc123", workflow: "CI" };
+
+		expect(await store.getConclusion(run)).toBeNull();
+		await store.saveConclusion(run, "failure");
+
+		expect(await store.getConclusion(run)).toBe("failure");
+		expect(await store.getConclusion({ ...run, workflow: "Lint" })).toBeNull();
+		expect(put).toHaveBeenCalledWith("ci:owner/repo:abc123:CI", "failure", {
+			expirationTtl: 2592000,
+		});
+	});
+});
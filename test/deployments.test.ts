@@ -0,0 +1,157 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+	type DeploymentStatusEvent,
+	handleDeploymentStatusEvent,
+} from "../src/github/deployments.js";
+import type { OdooClient } from "../src/odoo/client.js";
+import { createMockOdooClient, githubCommit, githubConfig, spyOnFetch } from "./helpers.js";
+
+const createOdooClient = (): OdooClient =>
+	createMockOdooClient(
+		{ stages: { done: 5, deployed: { staging: "QA", production: "Released" } } },
+		() => ({ stage_id: [5, "Done"], project_id: [7, "Web"] }),
+	);
+
+const deployment = (id: number, sha: string, environment = "production") => ({
+	id,
+	sha,
+	ref: "main",
+	environment,
+});
+
+describe("handleDeploymentStatusEvent", () => {
+	const baseDeploymentEvent: DeploymentStatusEvent = {
+		action: "created",
+		deployment_status: {
+			state: "success",
+			environment: "production",
+			environment_url: "https://app.example.com",
+			creator: { login: "deployer" },
+		},
+		deployment: deployment(30, "ccc3333333"),
+		repository: {
+			full_name: "owner/repo",
+			html_url: "https://github.com/owner/repo",
+		},
+	};
+
+	// Deployment 20 failed, 10 is the previous successful one
+	function mockGitHub(commits: ReturnType<typeof githubCommit>[]) {
+		return spyOnFetch().mockImplementation(async (input: RequestInfo | URL) => {
+			const url = String(input);
+			if (url.includes("/deployments/20/statuses")) {
+				return new Response(JSON.stringify([{ state: "failure" }, { state: "in_progress" }]));
+			}
+			if (url.includes("/deployments/10/statuses")) {
+				return new Response(JSON.stringify([{ state: "inactive" }, { state: "success" }]));
+			}
+			if (url.includes("/deployments?")) {
+				return new Response(
+					JSON.stringify([
+						deployment(30, "ccc3333333"),
+						deployment(20, "bbb2222222"),
+						deployment(10, "aaa1111111"),
+					]),
+				);
+			}
+			return new Response(JSON.stringify({ commits }));
+		});
+	}
+
+	it("notes the deployment on tasks referenced since the previous successful one", async () => {
+		const fetchSpy = mockGitHub([
+			githubCommit("c1", "Closes ODP-88"),
+			githubCommit("c2", "Part of ODP-89"),
+		]);
+		const odoo = createOdooClient();
+
+		const result = await handleDeploymentStatusEvent(baseDeploymentEvent, odoo, githubConfig);
+
+		expect(fetchSpy).toHaveBeenCalledWith(
+			"https://api.github.com/repos/owner/repo/deployments?environment=production&per_page=100",
+			expect.anything(),
+		);
+		expect(fetchSpy).toHaveBeenCalledWith(
+			"https://api.github.com/repos/owner/repo/compare/aaa1111111...ccc3333333?per_page=100",
+			expect.anything(),
+		);
+		expect(result).toEqual({ processed: 2, errors: [] });
+		const [taskId, message, author] = vi.mocked(odoo.addMessage).mock.calls[0];
+		expect(taskId).toBe(88);
+		expect(message).toContain('Deployed to <a href="https://app.example.com">production</a>');
+		expect(message).toContain(
+			'<a href="https://github.com/owner/repo/commit/ccc3333333">ccc3333</a>',
+		);
+		expect(author).toBe("deployer");
+	});
+
+	it("moves closed tasks to the environment's stage", async () => {
+		mockGitHub([githubCommit("c1", "Closes ODP-88"), githubCommit("c2", "Part of ODP-89")]);
+		const odoo = createOdooClient();
+
+		await handleDeploymentStatusEvent(baseDeploymentEvent, odoo, githubConfig);
+		await handleDeploymentStatusEvent(
+			{
+				...baseDeploymentEvent,
+				deployment_status: { ...baseDeploymentEvent.deployment_status, environment: "staging" },
+			},
+			odoo,
+			githubConfig,
+		);
+
+		expect(odoo.setStages).toHaveBeenCalledTimes(2);
+		expect(odoo.setStages).toHaveBeenNthCalledWith(1, [88], "Released", 7);
+		expect(odoo.setStages).toHaveBeenNthCalledWith(2, [88], "QA", 7);
+	});
+
+	it("leaves tasks in place for environments without a stage", async () => {
+		mockGitHub([githubCommit("c1", "Closes ODP-88")]);
+		const odoo = createOdooClient();
+
+		await handleDeploymentStatusEvent(
+			{
+				...baseDeploymentEvent,
+				deployment_status: { ...baseDeploymentEvent.deployment_status, environment: "preview" },
+			},
+			odoo,
+			githubConfig,
+		);
+
+		expect(odoo.addMessage).toHaveBeenCalledTimes(1);
+		expect(odoo.setStages).not.toHaveBeenCalled();
+	});
+
+	it("does nothing for the first deployment to an environment", async () => {
+		const fetchSpy = spyOnFetch().mockResolvedValue(
+			new Response(JSON.stringify([deployment(30, "ccc3333333")])),
+		);
+		const odoo = createOdooClient();
+
+		const result = await handleDeploymentStatusEvent(baseDeploymentEvent, odoo, githubConfig);
+
+		expect(result).toEqual({ processed: 0, errors: [] });
+		expect(fetchSpy).toHaveBeenCalledTimes(1);
+		expect(odoo.findTask).not.toHaveBeenCalled();
+	});
+
+	it("ignores unsuccessful deployments and reports a missing token", async () => {
+		const odoo = createOdooClient();
+
+		expect(
+			await handleDeploymentStatusEvent(
+				{
+					...baseDeploymentEvent,
+					deployment_status: { ...baseDeploymentEvent.deployment_status, state: "failure" },
+				},
+				odoo,
+				githubConfig,
+			),
+		).toEqual({ processed: 0, errors: [] });
+		const result = await handleDeploymentStatusEvent(baseDeploymentEvent, odoo, null);
+
+		expect(result.errors).toEqual([
+			"Deployment to production: GITHUB_TOKEN required to list its commits",
+		]);
+		expect(odoo.findTask).not.toHaveBeenCalled();
+	});
+});
@@ -6,22 +6,9 @@ import {
 	type PushEvent,
 } from "../src/github/events.js";
 import type { OdooClient } from "../src/odoo/client.js";
-
-// Create a mock OdooClient
-function createMockOdooClient(overrides: Partial<OdooClient> = {}): OdooClient {
-	return {
-		getTask: vi.fn().mockResolvedValue({ id: 123, name: "Test Task", stage_id: [1, "Todo"] }),
-		addMessage: vi.fn().mockResolvedValue(1),
-		setStage: vi.fn().mockResolvedValue(true),
-		resolveStage: vi.fn().mockResolvedValue(1),
-		getUserByEmail: vi.fn().mockResolvedValue(null),
-		getPartnerIdForUser: vi.fn().mockResolvedValue(null),
-		resolveAuthorPartnerId: vi.fn().mockResolvedValue(null),
-		resolveAuthorLink: vi.fn().mockResolvedValue("@testuser"),
-		stages: { done: 5, inProgress: 2, canceled: 6 },
-		...overrides,
-	} as unknown as OdooClient;
-}
+import type { StageRule } from "../src/odoo/rules.js";
+import { MemoryLinkStore } from "../src/store/links.js";
+import { createMockOdooClient, spyOnFetch } from "./helpers.js";
 
 describe("handlePushEvent", () => {
 	const basePushEvent: PushEvent = {
@@ -29,6 +16,7 @@ describe("handlePushEvent", () => {
 		repository: {
 			full_name: "owner/repo",
 			html_url: "https://github.com/owner/repo",
+			default_branch: "main",
 		},
 		commits: [],
 	};
@@ -51,7 +39,7 @@ describe("handlePushEvent", () => {
 
 		expect(result.processed).toBe(1);
 		expect(result.errors).toHaveLength(0);
-		expect(odoo.getTask).toHaveBeenCalledWith(123);
+		expect(odoo.findTask).toHaveBeenCalledWith(expect.objectContaining({ taskId: 123 }));
 		expect(odoo.addMessage).toHaveBeenCalledWith(
 			123,
 			expect.stringContaining("abc1234"),
@@ -75,7 +63,7 @@ describe("handlePushEvent", () => {
 
 		await handlePushEvent(event, odoo);
 
-		expect(odoo.setStage).toHaveBeenCalledWith(456);
+		expect(odoo.setStage).toHaveBeenCalledWith(456, 5, null);
 	});
 
 	it("does not set stage for ref-only references", async () => {
@@ -99,7 +87,7 @@ describe("handlePushEvent", () => {
 
 	it("reports error when task not found", async () => {
 		const odoo = createMockOdooClient({
-			getTask: vi.fn().mockResolvedValue(null),
+			findTask: vi.fn().mockResolvedValue(null),
 		});
 		const event: PushEvent = {
 			...basePushEvent,
@@ -119,7 +107,7 @@ describe("handlePushEvent", () => {
 		expect(result.errors).toContain("ODP-999: Task not found");
 	});
 
-	it("deduplicates task references across commits", async () => {
+	it("lists every commit referencing a task in one message", async () => {
 		const odoo = createMockOdooClient();
 		const event: PushEvent = {
 			...basePushEvent,
@@ -132,9 +120,9 @@ describe("handlePushEvent", () => {
 				},
 				{
 					id: "def1234567890",
-					message: "Continue ODP-123",
+					message: "Continue <form> ODP-123",
 					url: "https://github.com/owner/repo/commit/def1234567890",
-					author: { name: "Test User" },
+					author: { name: "Other User" },
 				},
 			],
 		};
@@ -143,6 +131,38 @@ describe("handlePushEvent", () => {
 
 		expect(result.processed).toBe(1);
 		expect(odoo.addMessage).toHaveBeenCalledTimes(1);
+		const message = vi.mocked(odoo.addMessage).mock.calls[0][1];
+		expect(message).toContain("Referenced in 2 commits:");
+		expect(message).toContain(
+			'<li><a href="https://github.com/owner/repo/commit/abc1234567890">abc1234</a>: Start ODP-123 by Test User</li>',
+		);
+		expect(message).toContain(
+			'<li><a href="https://github.com/owner/repo/commit/def1234567890">def1234</a>: Continue &lt;form&gt; ODP-123 by Other User</li>',
+		);
+	});
+
+	it("sets the stage once when several commits close the task", async () => {
+		const odoo = createMockOdooClient();
+		const event: PushEvent = {
+			...basePushEvent,
+			commits: ["abc", "def", "fed"].map((prefix, i) => ({
+				id: `${prefix}1234567890`,
+				message: i === 1 ? "Refs ODP-123" : `Closes ODP-123 step ${i}`,
+				url: `https://github.com/owner/repo/commit/${prefix}1234567890`,
+				author: { name: "Test User", email: `dev${i}@example.com` },
+			})),
+		};
+
+		await handlePushEvent(event, odoo);
+
+		expect(odoo.setStage).toHaveBeenCalledTimes(1);
+		expect(odoo.setStage).toHaveBeenCalledWith(123, 5, null);
+		const [, message, author] = vi.mocked(odoo.addMessage).mock.calls[0];
+		expect(message).toContain("Referenced in 3 commits (closes):");
+		expect(message).toContain("abc1234</a> (closes): Closes ODP-123 step 0");
+		expect(message).toContain("def1234</a>: Refs ODP-123");
+		// The latest closing commit's author is credited
+		expect(author).toBe("dev2@example.com");
 	});
 
 	it("prioritizes close action over ref when same task in multiple commits", async () => {
@@ -167,17 +187,20 @@ describe("handlePushEvent", () => {
 
 		await handlePushEvent(event, odoo);
 
-		expect(odoo.setStage).toHaveBeenCalledWith(123);
+		expect(odoo.setStage).toHaveBeenCalledWith(123, 5, null);
 	});
 
-	it("returns empty result for commits without references", async () => {
-		const odoo = createMockOdooClient();
+	it("uses configured prefixes and verifies the mapped project", async () => {
+		const odoo = createMockOdooClient({
+			findTask: vi.fn().mockResolvedValue(null),
+			parserOptions: { prefixes: { WEB: 7 } },
+		} as Partial<OdooClient>);
 		const event: PushEvent = {
 			...basePushEvent,
 			commits: [
 				{
 					id: "abc1234567890",
-					message: "Regular commit without references",
+					message: "Fixes WEB-12, mentions ODP-12",
 					url: "https://github.com/owner/repo/commit/abc1234567890",
 					author: { name: "Test User" },
 				},
@@ -186,239 +209,1843 @@ describe("handlePushEvent", () => {
 
 		const result = await handlePushEvent(event, odoo);
 
-		expect(result.processed).toBe(0);
-		expect(result.errors).toHaveLength(0);
-		expect(odoo.getTask).not.toHaveBeenCalled();
+		expect(odoo.findTask).toHaveBeenCalledTimes(1);
+		expect(odoo.findTask).toHaveBeenCalledWith({
+			action: "close",
+			taskId: 12,
+			prefix: "WEB",
+			projectId: 7,
+			source: "title",
+		});
+		expect(result.errors).toEqual(["WEB-12: Task not found"]);
+		expect(odoo.setStage).not.toHaveBeenCalled();
 	});
-});
-
-describe("handlePullRequestEvent", () => {
-	const basePREvent: PullRequestEvent = {
-		action: "opened",
-		pull_request: {
-			number: 42,
-			title: "Test PR",
-			body: null,
-			html_url: "https://github.com/owner/repo/pull/42",
-			merged: false,
-			draft: false,
-			user: { login: "testuser" },
-		},
-		repository: {
-			owner: { login: "owner" },
-			name: "repo",
-			full_name: "owner/repo",
-		},
-	};
 
-	it("processes PR with ODP reference in title", async () => {
-		const odoo = createMockOdooClient();
-		const event: PullRequestEvent = {
-			...basePREvent,
-			pull_request: {
-				...basePREvent.pull_request,
-				title: "Fix ODP-123",
-			},
+	it("works on the resolved task ID rather than the referenced number", async () => {
+		const odoo = createMockOdooClient({
+			findTask: vi.fn().mockResolvedValue({ id: 9001, name: "Task", stage_id: false }),
+		});
+		const event: PushEvent = {
+			...basePushEvent,
+			commits: [
+				{
+					id: "abc1234567890",
+					message: "Closes ODP-12",
+					url: "https://github.com/owner/repo/commit/abc1234567890",
+					author: { name: "Test User" },
+				},
+			],
 		};
 
-		const result = await handlePullRequestEvent(event, odoo, null);
+		await handlePushEvent(event, odoo);
 
-		expect(result.processed).toBe(1);
-		expect(odoo.addMessage).toHaveBeenCalledWith(123, expect.stringContaining("#42"), "testuser");
+		expect(odoo.addMessage).toHaveBeenCalledWith(9001, expect.any(String), undefined);
+		expect(odoo.setStage).toHaveBeenCalledWith(9001, 5, null);
 	});
 
-	it("processes PR with ODP reference in body", async () => {
+	it("links commits pushed to a task branch without keys in the message", async () => {
 		const odoo = createMockOdooClient();
-		const event: PullRequestEvent = {
-			...basePREvent,
-			pull_request: {
-				...basePREvent.pull_request,
-				title: "Some feature",
-				body: "This closes ODP-456",
-			},
+		const event: PushEvent = {
+			...basePushEvent,
+			ref: "refs/heads/feature/ODP-431-login-fix",
+			commits: [
+				{
+					id: "abc1234567890",
+					message: "Tweak validation",
+					url: "https://github.com/owner/repo/commit/abc1234567890",
+					author: { name: "Test User" },
+				},
+			],
 		};
 
-		const result = await handlePullRequestEvent(event, odoo, null);
+		const result = await handlePushEvent(event, odoo);
 
 		expect(result.processed).toBe(1);
-		expect(odoo.getTask).toHaveBeenCalledWith(456);
+		expect(odoo.addMessage).toHaveBeenCalledWith(
+			431,
+			expect.stringContaining("abc1234"),
+			undefined,
+		);
+		expect(odoo.setStage).not.toHaveBeenCalled();
 	});
 
-	it("sets inProgress stage when PR is opened", async () => {
+	it("skips commits with a [skip odoo] directive", async () => {
 		const odoo = createMockOdooClient();
-		const event: PullRequestEvent = {
-			...basePREvent,
-			action: "opened",
-			pull_request: {
-				...basePREvent.pull_request,
-				title: "Refs ODP-123",
-			},
+		const event: PushEvent = {
+			...basePushEvent,
+			commits: [
+				{
+					id: "abc1234567890",
+					message: "Closes ODP-1 [skip odoo]",
+					url: "https://github.com/owner/repo/commit/abc1234567890",
+					author: { name: "Test User" },
+				},
+				{
+					id: "def1234567890",
+					message: "Refs ODP-2",
+					url: "https://github.com/owner/repo/commit/def1234567890",
+					author: { name: "Test User" },
+				},
+			],
 		};
 
-		await handlePullRequestEvent(event, odoo, null);
+		const result = await handlePushEvent(event, odoo);
 
-		expect(odoo.setStage).toHaveBeenCalledWith(123, 2); // inProgress stage
+		expect(result.processed).toBe(1);
+		expect(odoo.findTask).toHaveBeenCalledTimes(1);
+		expect(odoo.findTask).toHaveBeenCalledWith(expect.objectContaining({ taskId: 2 }));
+		expect(odoo.setStage).not.toHaveBeenCalled();
 	});
 
-	it("sets done stage when PR with close keyword is merged", async () => {
+	it("closes every task in a keyword list", async () => {
 		const odoo = createMockOdooClient();
-		const event: PullRequestEvent = {
-			...basePREvent,
-			action: "closed",
-			pull_request: {
-				...basePREvent.pull_request,
-				title: "Closes ODP-123",
-				merged: true,
-			},
+		const event: PushEvent = {
+			...basePushEvent,
+			commits: [
+				{
+					id: "abc1234567890",
+					message: "Fixed ODP-1 and ODP-2",
+					url: "https://github.com/owner/repo/commit/abc1234567890",
+					author: { name: "Test User" },
+				},
+			],
 		};
 
-		await handlePullRequestEvent(event, odoo, null);
+		await handlePushEvent(event, odoo);
 
-		expect(odoo.setStage).toHaveBeenCalledWith(123, 5); // done stage
+		expect(odoo.setStage).toHaveBeenCalledWith(1, 5, null);
+		expect(odoo.setStage).toHaveBeenCalledWith(2, 5, null);
+		expect(odoo.addMessage).toHaveBeenCalledWith(
+			1,
+			expect.stringContaining("(closes): Fixed ODP-1 and ODP-2"),
+			undefined,
+		);
 	});
 
-	it("sets canceled stage when PR is closed without merge", async () => {
+	it("attributes a task to the commit whose trailer declared it", async () => {
 		const odoo = createMockOdooClient();
-		const event: PullRequestEvent = {
-			...basePREvent,
-			action: "closed",
-			pull_request: {
-				...basePREvent.pull_request,
-				title: "Refs ODP-123",
-				merged: false,
-			},
+		const event: PushEvent = {
+			...basePushEvent,
+			commits: [
+				{
+					id: "abc1234567890",
+					message: "Finish login\n\nCloses: ODP-55",
+					url: "https://github.com/owner/repo/commit/abc1234567890",
+					author: { name: "Test User" },
+				},
+				{
+					id: "def1234567890",
+					message: "Fix typo, fixes ODP-55",
+					url: "https://github.com/owner/repo/commit/def1234567890",
+					author: { name: "Test User" },
+				},
+			],
 		};
 
-		await handlePullRequestEvent(event, odoo, null);
+		await handlePushEvent(event, odoo);
 
-		expect(odoo.setStage).toHaveBeenCalledWith(123, 6); // canceled stage
+		expect(odoo.setStage).toHaveBeenCalledWith(55, 5, null);
+		expect(odoo.addMessage).toHaveBeenCalledWith(55, expect.stringContaining("abc1234"), undefined);
 	});
 
-	it("does not set inProgress stage when draft PR is opened", async () => {
-		const odoo = createMockOdooClient();
-		const event: PullRequestEvent = {
-			...basePREvent,
-			action: "opened",
-			pull_request: {
-				...basePREvent.pull_request,
-				title: "Refs ODP-123",
-				draft: true,
-			},
+	describe("#time smart commits", () => {
+		const timeCommit = {
+			id: "abc1234567890",
+			message: "Login fix\n\nODP-123 #time 1h30m Investigated login bug",
+			url: "https://github.com/owner/repo/commit/abc1234567890",
+			timestamp: "2026-10-19T10:00:00+02:00",
+			author: { name: "Test User", email: "dev@example.com" },
 		};
 
-		await handlePullRequestEvent(event, odoo, null);
+		it("logs time on the task for the commit author's employee", async () => {
+			const odoo = createMockOdooClient();
 
-		expect(odoo.addMessage).toHaveBeenCalled();
-		expect(odoo.setStage).not.toHaveBeenCalled();
-	});
+			const result = await handlePushEvent({ ...basePushEvent, commits: [timeCommit] }, odoo);
 
-	it("sets inProgress stage when draft PR is marked ready for review", async () => {
-		const odoo = createMockOdooClient();
-		const event: PullRequestEvent = {
-			...basePREvent,
-			action: "ready_for_review",
-			pull_request: {
-				...basePREvent.pull_request,
-				title: "Refs ODP-123",
-				draft: false,
-			},
-		};
+			expect(result.errors).toHaveLength(0);
+			expect(odoo.resolveUser).toHaveBeenCalledWith("dev@example.com");
+			expect(odoo.getEmployeeIdForUser).toHaveBeenCalledWith(10);
+			expect(odoo.createTimesheet).toHaveBeenCalledWith({
+				taskId: 123,
+				projectId: undefined,
+				employeeId: 77,
+				hours: 1.5,
+				description: "Investigated login bug (commit abc1234)",
+				date: "2026-10-19",
+			});
+		});
 
-		await handlePullRequestEvent(event, odoo, null);
+		it("does not log time again for non-distinct commits", async () => {
+			const odoo = createMockOdooClient();
 
-		expect(odoo.setStage).toHaveBeenCalledWith(123, 2);
-	});
+			await handlePushEvent(
+				{ ...basePushEvent, commits: [{ ...timeCommit, distinct: false }] },
+				odoo,
+			);
 
-	it("ignores unhandled PR actions", async () => {
-		const odoo = createMockOdooClient();
-		const event: PullRequestEvent = {
-			...basePREvent,
-			action: "labeled",
-			pull_request: {
-				...basePREvent.pull_request,
-				title: "Refs ODP-123",
-			},
-		};
+			expect(odoo.createTimesheet).not.toHaveBeenCalled();
+			expect(odoo.addMessage).toHaveBeenCalled();
+		});
 
-		const result = await handlePullRequestEvent(event, odoo, null);
+		it("does not log time again for squash merge commits", async () => {
+			const odoo = createMockOdooClient();
 
-		expect(result.processed).toBe(0);
-		expect(odoo.getTask).not.toHaveBeenCalled();
-	});
+			await handlePushEvent(
+				{
+					...basePushEvent,
+					commits: [
+						{ ...timeCommit, message: "Login fix (#12)\n\n* ODP-123 #time 1h30m Investigated" },
+					],
+				},
+				odoo,
+			);
 
-	it("returns empty result for PR without references", async () => {
-		const odoo = createMockOdooClient();
-		const event: PullRequestEvent = {
-			...basePREvent,
-			pull_request: {
-				...basePREvent.pull_request,
-				title: "Regular PR",
-				body: "No task references here",
-			},
-		};
+			expect(odoo.createTimesheet).not.toHaveBeenCalled();
+			expect(odoo.addMessage).toHaveBeenCalled();
+		});
 
-		const result = await handlePullRequestEvent(event, odoo, null);
+		it("does not log time again for commits rebased from a merged PR", async () => {
+			const odoo = createMockOdooClient();
+			const fetchSpy = vi
+				.spyOn(global, "fetch")
+				.mockResolvedValue(
+					new Response(JSON.stringify([{ number: 12, merged_at: "2026-10-19T10:00:00Z" }])),
+				);
 
-		expect(result.processed).toBe(0);
-		expect(result.errors).toHaveLength(0);
-	});
+			await handlePushEvent({ ...basePushEvent, commits: [timeCommit] }, odoo, {
+				token: "test-token",
+			});
 
-	it("posts GitHub comment when configured and tasks updated", async () => {
-		const odoo = createMockOdooClient();
-		const githubConfig = { token: "test-token" };
-		const event: PullRequestEvent = {
-			...basePREvent,
-			pull_request: {
-				...basePREvent.pull_request,
-				title: "Refs ODP-123",
-			},
-		};
+			expect(fetchSpy).toHaveBeenCalledWith(
+				"https://api.github.com/repos/owner/repo/commits/abc1234567890/pulls?per_page=100",
+				expect.anything(),
+			);
+			expect(odoo.createTimesheet).not.toHaveBeenCalled();
+			fetchSpy.mockRestore();
+		});
 
-		// Mock fetch for GitHub API
-		const fetchSpy = vi
-			.spyOn(global, "fetch")
-			.mockResolvedValue(new Response(JSON.stringify({ id: 1 }), { status: 201 }));
+		it("logs time for commits of open PRs", async () => {
+			const odoo = createMockOdooClient();
+			const fetchSpy = vi
+				.spyOn(global, "fetch")
+				.mockResolvedValue(new Response(JSON.stringify([{ number: 12, merged_at: null }])));
 
-		await handlePullRequestEvent(event, odoo, githubConfig);
+			await handlePushEvent({ ...basePushEvent, commits: [timeCommit] }, odoo, {
+				token: "test-token",
+			});
 
-		expect(fetchSpy).toHaveBeenCalledWith(
-			"https://api.github.com/repos/owner/repo/issues/42/comments",
-			expect.objectContaining({
-				method: "POST",
-				headers: expect.objectContaining({
-					Authorization: "Bearer test-token",
-				}),
-			}),
-		);
+			expect(odoo.createTimesheet).toHaveBeenCalled();
+			fetchSpy.mockRestore();
+		});
 
-		fetchSpy.mockRestore();
-	});
+		it("reports an error when the author has no Odoo user", async () => {
+			const odoo = createMockOdooClient({ resolveUser: vi.fn().mockResolvedValue(null) });
 
-	it("does not post GitHub comment on PR close", async () => {
-		const odoo = createMockOdooClient();
-		const githubConfig = { token: "test-token" };
-		const event: PullRequestEvent = {
-			...basePREvent,
-			action: "closed",
-			pull_request: {
-				...basePREvent.pull_request,
-				title: "Refs ODP-123",
+			const result = await handlePushEvent({ ...basePushEvent, commits: [timeCommit] }, odoo);
+
+			expect(odoo.createTimesheet).not.toHaveBeenCalled();
+			expect(result.errors).toContain("ODP-123: No Odoo user for dev@example.com, time not logged");
+		});
+
+		it("reports an error when the user has no employee", async () => {
+			const odoo = createMockOdooClient({ getEmployeeIdForUser: vi.fn().mockResolvedValue(null) });
+
+			const result = await handlePushEvent({ ...basePushEvent, commits: [timeCommit] }, odoo);
+
+			expect(result.errors).toContain("ODP-123: No employee linked to Odoo user dev@example.com");
+		});
+
+		it("reports invalid durations", async () => {
+			const odoo = createMockOdooClient();
+
+			const result = await handlePushEvent(
+				{ ...basePushEvent, commits: [{ ...timeCommit, message: "ODP-123 #time later" }] },
+				odoo,
+			);
+
+			expect(odoo.createTimesheet).not.toHaveBeenCalled();
+			expect(result.errors).toContain("ODP-123: Invalid #time duration in commit abc1234");
+		});
+	});
+
+	describe("task field smart commits", () => {
+		const commandCommit = (message: string) => ({
+			id: "abc1234567890",
+			message,
+			url: "https://github.com/owner/repo/commit/abc1234567890",
+			author: { name: "Test User", email: "dev@example.com" },
+		});
+
+		it("applies tag, priority, assign and deadline commands with chatter notes", async () => {
+			const odoo = createMockOdooClient({
+				resolveUser: vi.fn().mockResolvedValue({ id: 12, name: "Alice", login: "alice@co" }),
+			});
+
+			const result = await handlePushEvent(
+				{
+					...basePushEvent,
+					commits: [
+						commandCommit("ODP-7 #tag backend #priority high #assign @alice #deadline 2026-11-01"),
+					],
+				},
+				odoo,
+			);
+
+			expect(result.errors).toHaveLength(0);
+			expect(odoo.resolveTagId).toHaveBeenCalledWith("backend");
+			expect(odoo.addTaskTags).toHaveBeenCalledWith(7, [31]);
+			expect(odoo.setTaskPriority).toHaveBeenCalledWith(7, "1");
+			expect(odoo.resolveUser).toHaveBeenCalledWith("alice");
+			expect(odoo.assignTask).toHaveBeenCalledWith(7, 12);
+			expect(odoo.setTaskDeadline).toHaveBeenCalledWith(7, "2026-11-01");
+			for (const note of [
+				"Tag <b>backend</b> added by commit",
+				"Priority set to <b>high</b> by commit",
+				"Assigned to <b>Alice</b> by commit",
+				"Deadline set to <b>2026-11-01</b> by commit",
+			]) {
+				expect(odoo.addMessage).toHaveBeenCalledWith(
+					7,
+					expect.stringContaining(note),
+					"dev@example.com",
+				);
+			}
+		});
+
+		it("reports unknown tags without writing", async () => {
+			const odoo = createMockOdooClient({ resolveTagId: vi.fn().mockResolvedValue(null) });
+
+			const result = await handlePushEvent(
+				{ ...basePushEvent, commits: [commandCommit("ODP-7 #tag nope")] },
+				odoo,
+			);
+
+			expect(odoo.addTaskTags).not.toHaveBeenCalled();
+			expect(result.errors).toContain("ODP-7: Tag not found: nope");
+		});
+
+		it("rejects invalid priorities and deadlines", async () => {
+			const odoo = createMockOdooClient();
+
+			const result = await handlePushEvent(
+				{
+					...basePushEvent,
+					commits: [commandCommit("ODP-7 #priority meh #deadline next-week")],
+				},
+				odoo,
+			);
+
+			expect(odoo.setTaskPriority).not.toHaveBeenCalled();
+			expect(odoo.setTaskDeadline).not.toHaveBeenCalled();
+			expect(result.errors).toEqual([
+				'ODP-7: Invalid #priority "meh" in commit abc1234 (use high or normal)',
+				'ODP-7: Invalid #deadline "next-week" in commit abc1234 (use YYYY-MM-DD)',
+			]);
+		});
+	});
+
+	it("returns empty result for commits without references", async () => {
+		const odoo = createMockOdooClient();
+		const event: PushEvent = {
+			...basePushEvent,
+			commits: [
+				{
+					id: "abc1234567890",
+					message: "Regular commit without references",
+					url: "https://github.com/owner/repo/commit/abc1234567890",
+					author: { name: "Test User" },
+				},
+			],
+		};
+
+		const result = await handlePushEvent(event, odoo);
+
+		expect(result.processed).toBe(0);
+		expect(result.errors).toHaveLength(0);
+		expect(odoo.findTask).not.toHaveBeenCalled();
+	});
+
+	describe("branch filters", () => {
+		const closingCommit = {
+			id: "abc1234567890",
+			message: "Fixes ODP-1",
+			url: "https://github.com/owner/repo/commit/abc1234567890",
+			author: { name: "Test User" },
+		};
+		const pushTo = (ref: string): PushEvent => ({
+			...basePushEvent,
+			ref,
+			commits: [closingCommit],
+		});
+
+		it("links but does not close tasks from feature branches", async () => {
+			const odoo = createMockOdooClient();
+
+			const result = await handlePushEvent(pushTo("refs/heads/wip/login"), odoo);
+
+			expect(result.processed).toBe(1);
+			expect(odoo.addMessage).toHaveBeenCalledTimes(1);
+			expect(odoo.setStage).not.toHaveBeenCalled();
+		});
+
+		it("closes tasks from configured release branches", async () => {
+			const odoo = createMockOdooClient();
+			const options = { closeBranches: ["release/*"] };
+
+			await handlePushEvent(pushTo("refs/heads/release/2.1"), odoo, null, options);
+			await handlePushEvent(pushTo("refs/heads/release/2.1/hotfix"), odoo, null, options);
+
+			expect(odoo.setStage).toHaveBeenCalledTimes(1);
+			expect(odoo.setStage).toHaveBeenCalledWith(1, 5, null);
+		});
+
+		it("ignores pushes to branches outside the reference branches", async () => {
+			const odoo = createMockOdooClient();
+			const options = { referenceBranches: ["feature/**"] };
+
+			await handlePushEvent(pushTo("refs/heads/experiment"), odoo, null, options);
+			expect(odoo.findTask).not.toHaveBeenCalled();
+
+			await handlePushEvent(pushTo("refs/heads/feature/web/login"), odoo, null, options);
+			expect(odoo.addMessage).toHaveBeenCalledTimes(1);
+			expect(odoo.setStage).not.toHaveBeenCalled();
+
+			// The default branch always closes, whatever the reference branches
+			await handlePushEvent(pushTo("refs/heads/main"), odoo, null, options);
+			expect(odoo.setStage).toHaveBeenCalledWith(1, 5, null);
+		});
+
+		it("ignores tag pushes", async () => {
+			const odoo = createMockOdooClient();
+
+			const result = await handlePushEvent(pushTo("refs/tags/v1.0.0"), odoo);
+
+			expect(result).toEqual({ processed: 0, errors: [] });
+			expect(odoo.findTask).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("commit range", () => {
+		const githubConfig = { token: "test-token" };
+
+		const payloadCommit = (n: number, message = `Commit ${n}`) => ({
+			id: `sha${n}`,
+			message,
+			url: `https://github.com/owner/repo/commit/sha${n}`,
+			author: { name: "Test User", email: "test@example.com" },
+		});
+		const apiCommit = (n: number, message = `Commit ${n}`) => ({
+			sha: `sha${n}`,
+			html_url: `https://github.com/owner/repo/commit/sha${n}`,
+			commit: {
+				message,
+				author: { name: "API User", email: "api@example.com", date: "2026-03-02T10:00:00Z" },
+			},
+			author: { login: "apiuser" },
+			parents: [{ sha: `sha${n - 1}` }],
+		});
+
+		const truncatedEvent: PushEvent = {
+			...basePushEvent,
+			before: "before000",
+			after: "sha25",
+			commits: Array.from({ length: 20 }, (_, i) => payloadCommit(i + 1)),
+		};
+
+		it("completes a truncated payload from the compare API", async () => {
+			const odoo = createMockOdooClient();
+			const fetchSpy = vi.spyOn(global, "fetch").mockResolvedValue(
+				new Response(
+					JSON.stringify({
+						commits: Array.from({ length: 25 }, (_, i) =>
+							apiCommit(i + 1, i === 23 ? "Closes ODP-24" : `Commit ${i + 1}`),
+						),
+					}),
+				),
+			);
+
+			const result = await handlePushEvent(truncatedEvent, odoo, githubConfig);
+
+			expect(fetchSpy).toHaveBeenCalledWith(
+				"https://api.github.com/repos/owner/repo/compare/before000...sha25?per_page=100",
+				expect.objectContaining({ method: "GET" }),
+			);
+			expect(result.processed).toBe(1);
+			expect(odoo.addMessage).toHaveBeenCalledWith(
+				24,
+				expect.stringContaining("sha24"),
+				"api@example.com",
+			);
+			expect(odoo.setStage).toHaveBeenCalledWith(24, 5, null);
+			fetchSpy.mockRestore();
+		});
+
+		it("falls back to the payload when the compare request fails", async () => {
+			const odoo = createMockOdooClient();
+			const fetchSpy = vi
+				.spyOn(global, "fetch")
+				.mockResolvedValue(new Response("Not Found", { status: 404 }));
+			const event: PushEvent = {
+				...truncatedEvent,
+				commits: [...truncatedEvent.commits.slice(1), payloadCommit(21, "Refs ODP-21")],
+			};
+
+			const result = await handlePushEvent(event, odoo, githubConfig);
+
+			expect(result.errors).toEqual(["GitHub compare failed: GitHub API error: 404 Not Found"]);
+			expect(odoo.addMessage).toHaveBeenCalledWith(21, expect.any(String), "test@example.com");
+			fetchSpy.mockRestore();
+		});
+
+		it("keeps the payload's distinct flag for compared commits", async () => {
+			const odoo = createMockOdooClient();
+			const fetchSpy = vi
+				.spyOn(global, "fetch")
+				.mockResolvedValue(
+					new Response(JSON.stringify({ commits: [apiCommit(1, "ODP-5 #time 1h")] })),
+				);
+
+			await handlePushEvent(
+				{
+					...basePushEvent,
+					before: "sha0",
+					after: "sha1",
+					commits: [{ ...payloadCommit(1, "ODP-5 #time 1h"), distinct: false }],
+				},
+				odoo,
+				githubConfig,
+			);
+
+			expect(fetchSpy).toHaveBeenCalledTimes(1);
+			expect(odoo.createTimesheet).not.toHaveBeenCalled();
+			expect(odoo.addMessage).toHaveBeenCalledWith(5, expect.any(String), "test@example.com");
+			fetchSpy.mockRestore();
+		});
+
+		it("treats compared commits missing from the payload as already seen", async () => {
+			const odoo = createMockOdooClient();
+			const fetchSpy = vi.spyOn(global, "fetch").mockResolvedValue(
+				new Response(
+					JSON.stringify({
+						commits: Array.from({ length: 25 }, (_, i) =>
+							apiCommit(i + 1, i === 23 ? "ODP-24 #time 1h" : `Commit ${i + 1}`),
+						),
+					}),
+				),
+			);
+
+			await handlePushEvent(truncatedEvent, odoo, githubConfig);
+
+			expect(fetchSpy).toHaveBeenCalledTimes(1);
+			expect(odoo.createTimesheet).not.toHaveBeenCalled();
+			expect(odoo.addMessage).toHaveBeenCalledWith(24, expect.any(String), "api@example.com");
+			fetchSpy.mockRestore();
+		});
+
+		it("does not compare new branches or without a token", async () => {
+			const odoo = createMockOdooClient();
+			const fetchSpy = vi.spyOn(global, "fetch");
+			const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+			await handlePushEvent({ ...truncatedEvent, before: "0".repeat(40) }, odoo, githubConfig);
+			await handlePushEvent(truncatedEvent, odoo);
+
+			expect(fetchSpy).not.toHaveBeenCalled();
+			expect(warnSpy).toHaveBeenCalledTimes(2);
+			fetchSpy.mockRestore();
+			warnSpy.mockRestore();
+		});
+
+		it("ignores deleted branches", async () => {
+			const odoo = createMockOdooClient();
+
+			const result = await handlePushEvent(
+				{ ...basePushEvent, deleted: true, commits: [payloadCommit(1, "Closes ODP-1")] },
+				odoo,
+			);
+
+			expect(result.processed).toBe(0);
+			expect(odoo.findTask).not.toHaveBeenCalled();
+		});
+
+		it("links force-pushed commits without re-applying commands or closing", async () => {
+			const odoo = createMockOdooClient();
+
+			const result = await handlePushEvent(
+				{
+					...basePushEvent,
+					forced: true,
+					commits: [payloadCommit(1, "Closes ODP-7 #time 2h")],
+				},
+				odoo,
+			);
+
+			expect(result.processed).toBe(1);
+			expect(odoo.addMessage).toHaveBeenCalledWith(
+				7,
+				expect.stringContaining("Referenced in force-pushed commit"),
+				"test@example.com",
+			);
+			expect(odoo.setStage).not.toHaveBeenCalled();
+			expect(odoo.createTimesheet).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("reverts", () => {
+		const githubConfig = { token: "test-token" };
+		const revertCommit = {
+			id: "def1234567890",
+			message: 'Revert "Fix login, closes ODP-5"\n\nThis reverts commit abc1234567890.',
+			url: "https://github.com/owner/repo/commit/def1234567890",
+			author: { name: "Test User", email: "test@example.com" },
+		};
+
+		it("reopens tasks closed by the reverted commit", async () => {
+			const odoo = createMockOdooClient({ stages: { done: 5, inProgress: 2, reopen: 8 } });
+			const fetchSpy = vi
+				.spyOn(global, "fetch")
+				// The revert was pushed directly, not merged from a PR
+				.mockResolvedValueOnce(new Response(JSON.stringify([])))
+				.mockResolvedValueOnce(
+					new Response(
+						JSON.stringify({
+							sha: "abc1234567890",
+							html_url: "https://github.com/owner/repo/commit/abc1234567890",
+							commit: { message: "Fix login\n\nCloses ODP-5\nRefs ODP-6", author: null },
+							author: null,
+							parents: [{ sha: "p1" }],
+						}),
+					),
+				)
+				.mockResolvedValueOnce(
+					new Response(
+						JSON.stringify([
+							{
+								number: 40,
+								title: "Login",
+								body: "Fixes ODP-7",
+								html_url: "https://github.com/owner/repo/pull/40",
+								merged_at: "2026-10-01T00:00:00Z",
+								head: { ref: "feature/login" },
+							},
+						]),
+					),
+				);
+
+			const result = await handlePushEvent(
+				{ ...basePushEvent, commits: [revertCommit] },
+				odoo,
+				githubConfig,
+			);
+
+			expect(fetchSpy).toHaveBeenCalledWith(
+				"https://api.github.com/repos/owner/repo/commits/abc1234567890",
+				expect.anything(),
+			);
+			expect(result.errors).toHaveLength(0);
+			expect(odoo.setStage).toHaveBeenCalledTimes(2);
+			expect(odoo.setStage).toHaveBeenCalledWith(5, 8, null);
+			expect(odoo.setStage).toHaveBeenCalledWith(7, 8, null);
+			expect(odoo.addMessage).toHaveBeenCalledWith(
+				5,
+				expect.stringContaining(
+					'Reopened: commit <a href="https://github.com/owner/repo/commit/def1234567890">def1234</a> reverts commit <a href="https://github.com/owner/repo/commit/abc1234567890">abc1234</a>',
+				),
+				"test@example.com",
+			);
+			// The quoted title is not a new reference of the revert itself
+			expect(odoo.addMessage).not.toHaveBeenCalledWith(
+				5,
+				expect.stringContaining("Referenced in"),
+				expect.anything(),
+			);
+			expect(odoo.findTask).not.toHaveBeenCalledWith(expect.objectContaining({ taskId: 6 }));
+			fetchSpy.mockRestore();
+		});
+
+		it("falls back to the quoted title and the in-progress stage", async () => {
+			const odoo = createMockOdooClient();
+
+			const result = await handlePushEvent({ ...basePushEvent, commits: [revertCommit] }, odoo);
+
+			expect(result.processed).toBe(1);
+			expect(odoo.setStage).toHaveBeenCalledWith(5, 2, null);
+		});
+
+		it("does not reopen tasks when a revert is reverted", async () => {
+			const odoo = createMockOdooClient();
+
+			await handlePushEvent(
+				{
+					...basePushEvent,
+					commits: [{ ...revertCommit, message: 'Revert "Revert "Fix ODP-1""' }],
+				},
+				odoo,
+			);
+
+			expect(odoo.setStage).not.toHaveBeenCalled();
+		});
+
+		it("does not repeat the reverted commit's smart commands", async () => {
+			const odoo = createMockOdooClient();
+
+			await handlePushEvent(
+				{
+					...basePushEvent,
+					commits: [
+						{ ...revertCommit, message: 'Revert "ODP-5 #time 2h"\n\nThis reverts commit abc1234.' },
+					],
+				},
+				odoo,
+			);
+
+			expect(odoo.createTimesheet).not.toHaveBeenCalled();
+			expect(odoo.setStage).not.toHaveBeenCalled();
+		});
+
+		it("ignores reverts in force pushes", async () => {
+			const odoo = createMockOdooClient();
+
+			await handlePushEvent({ ...basePushEvent, forced: true, commits: [revertCommit] }, odoo);
+
+			expect(odoo.setStage).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("linked pull requests", () => {
+		const mergePush: PushEvent = {
+			...basePushEvent,
+			commits: [
+				{
+					id: "abc1234567890",
+					message: "Fix login\n\nFixes ODP-5",
+					url: "https://github.com/owner/repo/commit/abc1234567890",
+					author: { name: "Test User", email: "test@example.com" },
+				},
+			],
+		};
+		const link = (number: number, state: "open" | "merged") => ({
+			repository: "owner/repo",
+			number,
+			url: `https://github.com/owner/repo/pull/${number}`,
+			action: "close" as const,
+			state,
+		});
+
+		it("leaves the close to a closing PR that is still open", async () => {
+			const links = new MemoryLinkStore();
+			await links.saveLink(5, link(1, "merged"));
+			await links.saveLink(5, link(2, "open"));
+			const odoo = createMockOdooClient();
+
+			await handlePushEvent(mergePush, odoo, null, { links });
+
+			expect(odoo.setStage).not.toHaveBeenCalled();
+			expect(odoo.addMessage).toHaveBeenCalledWith(
+				5,
+				expect.stringContaining(
+					'Not closing yet, waiting for <a href="https://github.com/owner/repo/pull/2">#2</a>',
+				),
+				"test@example.com",
+			);
+		});
+
+		it("closes the task once no closing PR is open", async () => {
+			const links = new MemoryLinkStore();
+			await links.saveLink(5, link(1, "merged"));
+			const odoo = createMockOdooClient();
+
+			await handlePushEvent(mergePush, odoo, null, { links });
+
+			expect(odoo.setStage).toHaveBeenCalledWith(5, 5, null);
+			expect(odoo.addMessage).not.toHaveBeenCalledWith(
+				5,
+				expect.stringContaining("Not closing yet"),
+				expect.anything(),
+			);
+		});
+
+		it("does not wait for the PR the commit was merged from", async () => {
+			const links = new MemoryLinkStore();
+			await links.saveLink(5, link(12, "open"));
+			const odoo = createMockOdooClient();
+			const squashPush: PushEvent = {
+				...mergePush,
+				commits: [{ ...mergePush.commits[0], message: "Fix login (#12)\n\nFixes ODP-5" }],
+			};
+
+			await handlePushEvent(squashPush, odoo, null, { links });
+
+			expect(odoo.setStage).toHaveBeenCalledWith(5, 5, null);
+			expect(odoo.addMessage).not.toHaveBeenCalledWith(
+				5,
+				expect.stringContaining("Not closing yet"),
+				expect.anything(),
+			);
+		});
+
+		it("looks up the merged PR of a commit without a squash title", async () => {
+			const links = new MemoryLinkStore();
+			await links.saveLink(5, link(12, "open"));
+			await links.saveLink(5, link(13, "open"));
+			const odoo = createMockOdooClient();
+			spyOnFetch().mockResolvedValueOnce(
+				new Response(JSON.stringify([{ number: 12, merged_at: "2024-01-01T00:00:00Z" }])),
+			);
+
+			await handlePushEvent(mergePush, odoo, { token: "test-token" }, { links });
+
+			expect(odoo.setStage).not.toHaveBeenCalled();
+			const [, message] = vi.mocked(odoo.addMessage).mock.calls[0];
+			expect(message).toContain(
+				'Not closing yet, waiting for <a href="https://github.com/owner/repo/pull/13">#13</a>',
+			);
+			expect(message).not.toContain("pull/12");
+		});
+	});
+});
+
+describe("handlePullRequestEvent", () => {
+	const basePREvent: PullRequestEvent = {
+		action: "opened",
+		pull_request: {
+			number: 42,
+			title: "Test PR",
+			body: null,
+			html_url: "https://github.com/owner/repo/pull/42",
+			merged: false,
+			draft: false,
+			head: { ref: "feature/test" },
+			base: { ref: "main" },
+			user: { login: "testuser" },
+		},
+		repository: {
+			owner: { login: "owner" },
+			name: "repo",
+			full_name: "owner/repo",
+		},
+	};
+
+	it("processes PR with ODP reference in title", async () => {
+		const odoo = createMockOdooClient();
+		const event: PullRequestEvent = {
+			...basePREvent,
+			pull_request: {
+				...basePREvent.pull_request,
+				title: "Fix ODP-123",
+			},
+		};
+
+		const result = await handlePullRequestEvent(event, odoo, null);
+
+		expect(result.processed).toBe(1);
+		expect(odoo.addMessage).toHaveBeenCalledWith(123, expect.stringContaining("#42"), "testuser");
+	});
+
+	it("processes PR with ODP reference in body", async () => {
+		const odoo = createMockOdooClient();
+		const event: PullRequestEvent = {
+			...basePREvent,
+			pull_request: {
+				...basePREvent.pull_request,
+				title: "Some feature",
+				body: "This closes ODP-456",
+			},
+		};
+
+		const result = await handlePullRequestEvent(event, odoo, null);
+
+		expect(result.processed).toBe(1);
+		expect(odoo.findTask).toHaveBeenCalledWith(expect.objectContaining({ taskId: 456 }));
+	});
+
+	it("processes PR with an Odoo task link in body", async () => {
+		const odoo = createMockOdooClient({
+			parserOptions: { odooUrl: "https://odoo.example.com" },
+		} as Partial<OdooClient>);
+		const event: PullRequestEvent = {
+			...basePREvent,
+			pull_request: {
+				...basePREvent.pull_request,
+				title: "Some feature",
+				body: "Closes https://odoo.example.com/odoo/project/5/tasks/77",
+			},
+		};
+
+		const fetchSpy = spyOnFetch().mockResolvedValue(new Response(JSON.stringify({ id: 1 })));
+
+		const result = await handlePullRequestEvent(event, odoo, { token: "test-token" });
+
+		expect(result.processed).toBe(1);
+		expect(odoo.findTask).toHaveBeenCalledWith({
+			action: "close",
+			taskId: 77,
+			projectId: 5,
+			source: "body",
+		});
+		// GitHub would link "#77" to issue 77 of the repository
+		const [, init] = fetchSpy.mock.calls[0];
+		expect(JSON.parse(init?.body as string)).toEqual({ body: "Updated Odoo tasks: task 77" });
+	});
+
+	it("sets inProgress stage when PR is opened", async () => {
+		const odoo = createMockOdooClient();
+		const event: PullRequestEvent = {
+			...basePREvent,
+			action: "opened",
+			pull_request: {
+				...basePREvent.pull_request,
+				title: "Refs ODP-123",
+			},
+		};
+
+		await handlePullRequestEvent(event, odoo, null);
+
+		expect(odoo.setStage).toHaveBeenCalledWith(123, 2, null); // inProgress stage
+	});
+
+	it("sets done stage when PR with close keyword is merged", async () => {
+		const odoo = createMockOdooClient();
+		const event: PullRequestEvent = {
+			...basePREvent,
+			action: "closed",
+			pull_request: {
+				...basePREvent.pull_request,
+				title: "Closes ODP-123",
+				merged: true,
+			},
+		};
+
+		await handlePullRequestEvent(event, odoo, null);
+
+		expect(odoo.setStage).toHaveBeenCalledWith(123, 5, null); // done stage
+	});
+
+	it("sets canceled stage when PR is closed without merge", async () => {
+		const odoo = createMockOdooClient();
+		const event: PullRequestEvent = {
+			...basePREvent,
+			action: "closed",
+			pull_request: {
+				...basePREvent.pull_request,
+				title: "Refs ODP-123",
+				merged: false,
+			},
+		};
+
+		await handlePullRequestEvent(event, odoo, null);
+
+		expect(odoo.setStage).toHaveBeenCalledWith(123, 6, null); // canceled stage
+	});
+
+	it("does not set inProgress stage when draft PR is opened", async () => {
+		const odoo = createMockOdooClient();
+		const event: PullRequestEvent = {
+			...basePREvent,
+			action: "opened",
+			pull_request: {
+				...basePREvent.pull_request,
+				title: "Refs ODP-123",
+				draft: true,
+			},
+		};
+
+		await handlePullRequestEvent(event, odoo, null);
+
+		expect(odoo.addMessage).toHaveBeenCalled();
+		expect(odoo.setStage).not.toHaveBeenCalled();
+	});
+
+	it("sets inProgress stage when draft PR is marked ready for review", async () => {
+		const odoo = createMockOdooClient();
+		const event: PullRequestEvent = {
+			...basePREvent,
+			action: "ready_for_review",
+			pull_request: {
+				...basePREvent.pull_request,
+				title: "Refs ODP-123",
+				draft: false,
+			},
+		};
+
+		await handlePullRequestEvent(event, odoo, null);
+
+		expect(odoo.setStage).toHaveBeenCalledWith(123, 2, null);
+	});
+
+	it("notes a PR going back to draft and moves tasks to the draft stage", async () => {
+		const odoo = createMockOdooClient({ stages: { done: 5, inProgress: 2, draft: 8 } });
+		const event: PullRequestEvent = {
+			...basePREvent,
+			action: "converted_to_draft",
+			pull_request: {
+				...basePREvent.pull_request,
+				title: "Refs ODP-123",
+				draft: true,
+			},
+		};
+
+		const result = await handlePullRequestEvent(event, odoo, null);
+
+		expect(result.processed).toBe(1);
+		expect(odoo.addMessage).toHaveBeenCalledWith(
+			123,
+			expect.stringContaining("#42</a> (back to draft)"),
+			"testuser",
+		);
+		expect(odoo.setStage).toHaveBeenCalledWith(123, 8, null);
+	});
+
+	it("ignores unhandled PR actions", async () => {
+		const odoo = createMockOdooClient();
+		const event: PullRequestEvent = {
+			...basePREvent,
+			action: "labeled",
+			pull_request: {
+				...basePREvent.pull_request,
+				title: "Refs ODP-123",
+			},
+		};
+
+		const result = await handlePullRequestEvent(event, odoo, null);
+
+		expect(result.processed).toBe(0);
+		expect(odoo.findTask).not.toHaveBeenCalled();
+	});
+
+	it("links PR to the task in its head branch when body is empty", async () => {
+		const odoo = createMockOdooClient();
+		const event: PullRequestEvent = {
+			...basePREvent,
+			pull_request: {
+				...basePREvent.pull_request,
+				title: "Login fix",
+				head: { ref: "feature/ODP-431-login-fix" },
+			},
+		};
+
+		const result = await handlePullRequestEvent(event, odoo, null);
+
+		expect(result.processed).toBe(1);
+		expect(odoo.findTask).toHaveBeenCalledWith({
+			action: "ref",
+			taskId: 431,
+			prefix: "ODP",
+			source: "branch",
+		});
+	});
+
+	it("skips PRs with a [no odoo] directive in the title", async () => {
+		const odoo = createMockOdooClient();
+		const event: PullRequestEvent = {
+			...basePREvent,
+			action: "closed",
+			pull_request: {
+				...basePREvent.pull_request,
+				title: "Bump deps [no odoo]",
+				body: "Closes ODP-123",
+				merged: true,
+			},
+		};
+
+		const result = await handlePullRequestEvent(event, odoo, null);
+
+		expect(result.processed).toBe(0);
+		expect(odoo.findTask).not.toHaveBeenCalled();
+		expect(odoo.setStage).not.toHaveBeenCalled();
+	});
+
+	it("ignores references quoted in the PR body", async () => {
+		const odoo = createMockOdooClient();
+		const event: PullRequestEvent = {
+			...basePREvent,
+			pull_request: {
+				...basePREvent.pull_request,
+				title: "Some feature",
+				body: "<!-- Closes ODP-1 -->\n> Closes ODP-2\n\n```\nODP-3\n```",
+			},
+		};
+
+		const result = await handlePullRequestEvent(event, odoo, null);
+
+		expect(result.processed).toBe(0);
+		expect(odoo.findTask).not.toHaveBeenCalled();
+	});
+
+	it("names the declared relationship in the chatter message", async () => {
+		const odoo = createMockOdooClient();
+		const event: PullRequestEvent = {
+			...basePREvent,
+			pull_request: {
+				...basePREvent.pull_request,
+				title: "Login form",
+				body: "Part of ODP-1, ODP-2\nRelated to ODP-3",
+			},
+		};
+
+		await handlePullRequestEvent(event, odoo, null);
+
+		expect(odoo.addMessage).toHaveBeenCalledWith(
+			1,
+			expect.stringContaining("(opened, part of)"),
+			"testuser",
+		);
+		expect(odoo.addMessage).toHaveBeenCalledWith(
+			3,
+			expect.stringContaining("(opened, related to)"),
+			"testuser",
+		);
+	});
+
+	it("does not move part-of tasks to done on merge", async () => {
+		const odoo = createMockOdooClient();
+		const event: PullRequestEvent = {
+			...basePREvent,
+			action: "closed",
+			pull_request: {
+				...basePREvent.pull_request,
+				title: "Part of ODP-1, closes ODP-2",
 				merged: true,
 			},
 		};
 
+		await handlePullRequestEvent(event, odoo, null);
+
+		expect(odoo.setStage).toHaveBeenCalledTimes(1);
+		expect(odoo.setStage).toHaveBeenCalledWith(2, 5, null);
+	});
+
+	it("applies smart commands from the PR body when opened", async () => {
+		const odoo = createMockOdooClient();
+		const event: PullRequestEvent = {
+			...basePREvent,
+			pull_request: {
+				...basePREvent.pull_request,
+				title: "Some feature",
+				body: "ODP-7 #tag backend",
+			},
+		};
+
+		await handlePullRequestEvent(event, odoo, null);
+
+		expect(odoo.addTaskTags).toHaveBeenCalledWith(7, [31]);
+		expect(odoo.addMessage).toHaveBeenCalledWith(
+			7,
+			expect.stringContaining(
+				'Tag <b>backend</b> added by PR <a href="https://github.com/owner/repo/pull/42">#42</a>',
+			),
+			"testuser",
+		);
+	});
+
+	it("does not repeat PR body smart commands on edit", async () => {
+		const odoo = createMockOdooClient();
+		const event: PullRequestEvent = {
+			...basePREvent,
+			action: "edited",
+			pull_request: {
+				...basePREvent.pull_request,
+				title: "Some feature",
+				body: "ODP-7 #tag backend",
+			},
+		};
+
+		await handlePullRequestEvent(event, odoo, null);
+
+		expect(odoo.addTaskTags).not.toHaveBeenCalled();
+	});
+
+	describe("edits", () => {
+		const edited = (
+			title: string,
+			body: string | null,
+			changes: PullRequestEvent["changes"],
+		): PullRequestEvent => ({
+			...basePREvent,
+			action: "edited",
+			pull_request: { ...basePREvent.pull_request, title, body },
+			changes,
+		});
+
+		it("notes only references the edit added", async () => {
+			const odoo = createMockOdooClient();
+
+			const result = await handlePullRequestEvent(
+				edited("Add login", "Part of ODP-1\nPart of ODP-2", { body: { from: "Part of ODP-1" } }),
+				odoo,
+				null,
+			);
+
+			expect(result.processed).toBe(1);
+			expect(odoo.addMessage).toHaveBeenCalledTimes(1);
+			expect(odoo.addMessage).toHaveBeenCalledWith(
+				2,
+				expect.stringContaining("(edited, part of)"),
+				"testuser",
+			);
+		});
+
+		it("unlinks references the edit removed", async () => {
+			const links = new MemoryLinkStore();
+			const odoo = createMockOdooClient();
+			await handlePullRequestEvent(
+				{ ...basePREvent, pull_request: { ...basePREvent.pull_request, title: "Closes ODP-5" } },
+				odoo,
+				null,
+				{ links },
+			);
+			vi.mocked(odoo.addMessage).mockClear();
+
+			const result = await handlePullRequestEvent(
+				edited("Add login", null, { title: { from: "Closes ODP-5" } }),
+				odoo,
+				null,
+				{ links },
+			);
+
+			expect(result).toEqual({ processed: 1, errors: [] });
+			expect(odoo.addMessage).toHaveBeenCalledWith(
+				5,
+				expect.stringContaining(
+					'Unlinked from PR <a href="https://github.com/owner/repo/pull/42">#42</a>',
+				),
+				"testuser",
+			);
+			expect(await links.getLinks(5)).toEqual([]);
+		});
+
+		it("notes a changed relationship", async () => {
+			const odoo = createMockOdooClient();
+
+			await handlePullRequestEvent(
+				edited("Closes ODP-1", null, { title: { from: "Part of ODP-1" } }),
+				odoo,
+				null,
+			);
+
+			expect(odoo.addMessage).toHaveBeenCalledWith(
+				1,
+				expect.stringContaining("(edited, closes)"),
+				"testuser",
+			);
+		});
+
+		it("stays silent when the references did not change", async () => {
+			const odoo = createMockOdooClient();
+
+			const result = await handlePullRequestEvent(
+				edited("Login page ODP-1", "More details", { title: { from: "ODP-1 login" } }),
+				odoo,
+				null,
+			);
+
+			expect(result).toEqual({ processed: 0, errors: [] });
+			expect(odoo.findTask).not.toHaveBeenCalled();
+			expect(odoo.addMessage).not.toHaveBeenCalled();
+		});
+	});
+
+	it("returns empty result for PR without references", async () => {
+		const odoo = createMockOdooClient();
+		const event: PullRequestEvent = {
+			...basePREvent,
+			pull_request: {
+				...basePREvent.pull_request,
+				title: "Regular PR",
+				body: "No task references here",
+			},
+		};
+
+		const result = await handlePullRequestEvent(event, odoo, null);
+
+		expect(result.processed).toBe(0);
+		expect(result.errors).toHaveLength(0);
+	});
+
+	it("posts GitHub comment when configured and tasks updated", async () => {
+		const odoo = createMockOdooClient();
+		const githubConfig = { token: "test-token" };
+		const event: PullRequestEvent = {
+			...basePREvent,
+			pull_request: {
+				...basePREvent.pull_request,
+				title: "Refs ODP-123",
+			},
+		};
+
+		// Mock fetch for GitHub API
 		const fetchSpy = vi
 			.spyOn(global, "fetch")
 			.mockResolvedValue(new Response(JSON.stringify({ id: 1 }), { status: 201 }));
 
 		await handlePullRequestEvent(event, odoo, githubConfig);
 
-		// Should not call GitHub API (only Odoo calls)
+		expect(fetchSpy).toHaveBeenCalledWith(
+			"https://api.github.com/repos/owner/repo/issues/42/comments",
+			expect.objectContaining({
+				method: "POST",
+				headers: expect.objectContaining({
+					Authorization: "Bearer test-token",
+				}),
+			}),
+		);
+
+		fetchSpy.mockRestore();
+	});
+
+	it("does not post GitHub comment on PR close", async () => {
+		const odoo = createMockOdooClient();
+		const githubConfig = { token: "test-token" };
+		const event: PullRequestEvent = {
+			...basePREvent,
+			action: "closed",
+			pull_request: {
+				...basePREvent.pull_request,
+				title: "Refs ODP-123",
+				merged: true,
+			},
+		};
+
+		const fetchSpy = vi
+			.spyOn(global, "fetch")
+			.mockResolvedValue(new Response(JSON.stringify([]), { status: 200 }));
+
+		await handlePullRequestEvent(event, odoo, githubConfig);
+
+		// Merging only reads the PR commits, no comment is posted
+		expect(fetchSpy).not.toHaveBeenCalledWith(
+			expect.stringContaining("/comments"),
+			expect.anything(),
+		);
 		expect(fetchSpy).not.toHaveBeenCalledWith(
-			expect.stringContaining("github.com"),
 			expect.anything(),
+			expect.objectContaining({ method: "POST" }),
 		);
 
 		fetchSpy.mockRestore();
 	});
+
+	describe("PR commits", () => {
+		const githubConfig = { token: "test-token" };
+
+		const apiCommit = (sha: string, message: string, parents = 1) => ({
+			sha,
+			html_url: `https://github.com/owner/repo/commit/${sha}`,
+			commit: { message, author: { name: "Test User", email: "test@example.com" } },
+			author: { login: "testuser" },
+			parents: Array.from({ length: parents }, (_, i) => ({ sha: `parent${i}` })),
+		});
+
+		const mergedEvent: PullRequestEvent = {
+			...basePREvent,
+			action: "closed",
+			pull_request: { ...basePREvent.pull_request, title: "Login form", merged: true },
+		};
+
+		it("applies close keywords from commits when the PR merges", async () => {
+			const odoo = createMockOdooClient();
+			const fetchSpy = vi
+				.spyOn(global, "fetch")
+				.mockResolvedValue(
+					new Response(
+						JSON.stringify([
+							apiCommit("aaa111", "Start login form ODP-8"),
+							apiCommit("bbb222", "Finish login form\n\nCloses ODP-9"),
+						]),
+					),
+				);
+
+			const result = await handlePullRequestEvent(mergedEvent, odoo, githubConfig);
+
+			expect(fetchSpy).toHaveBeenCalledWith(
+				"https://api.github.com/repos/owner/repo/pulls/42/commits?per_page=100",
+				expect.objectContaining({ method: "GET" }),
+			);
+			expect(result.processed).toBe(2);
+			expect(odoo.setStage).toHaveBeenCalledWith(9, 5, null);
+			expect(odoo.setStage).not.toHaveBeenCalledWith(8, expect.anything());
+			expect(odoo.addMessage).toHaveBeenCalledWith(
+				9,
+				expect.stringContaining("(merged, closes)"),
+				"testuser",
+			);
+			fetchSpy.mockRestore();
+		});
+
+		it("upgrades a PR reference with a commit close keyword and ignores merge commits", async () => {
+			const odoo = createMockOdooClient();
+			const fetchSpy = vi
+				.spyOn(global, "fetch")
+				.mockResolvedValue(
+					new Response(
+						JSON.stringify([
+							apiCommit("aaa111", "Fixes ODP-123"),
+							apiCommit("ccc333", "Merge branch 'main'\n\nCloses ODP-77", 2),
+						]),
+					),
+				);
+
+			await handlePullRequestEvent(
+				{
+					...mergedEvent,
+					pull_request: { ...mergedEvent.pull_request, body: "Part of ODP-123" },
+				},
+				odoo,
+				githubConfig,
+			);
+
+			expect(odoo.setStage).toHaveBeenCalledWith(123, 5, null);
+			expect(odoo.findTask).not.toHaveBeenCalledWith(expect.objectContaining({ taskId: 77 }));
+			fetchSpy.mockRestore();
+		});
+
+		it("keeps the PR references when the commit list cannot be fetched", async () => {
+			const odoo = createMockOdooClient();
+			const fetchSpy = vi
+				.spyOn(global, "fetch")
+				.mockResolvedValue(new Response("Not Found", { status: 404 }));
+
+			const result = await handlePullRequestEvent(
+				{ ...mergedEvent, pull_request: { ...mergedEvent.pull_request, title: "Closes ODP-1" } },
+				odoo,
+				githubConfig,
+			);
+
+			expect(result.errors).toEqual([
+				"GitHub commits fetch failed: GitHub API error: 404 Not Found",
+			]);
+			expect(odoo.setStage).toHaveBeenCalledWith(1, 5, null);
+			fetchSpy.mockRestore();
+		});
+
+		it("ignores synchronize unless commit scanning is enabled", async () => {
+			const odoo = createMockOdooClient();
+			const fetchSpy = vi.spyOn(global, "fetch");
+
+			const result = await handlePullRequestEvent(
+				{ ...basePREvent, action: "synchronize", before: "aaa111", after: "bbb222" },
+				odoo,
+				githubConfig,
+			);
+
+			expect(result.processed).toBe(0);
+			expect(fetchSpy).not.toHaveBeenCalled();
+			fetchSpy.mockRestore();
+		});
+
+		it("links only tasks newly referenced by the pushed commits on synchronize", async () => {
+			const odoo = createMockOdooClient();
+			const fetchSpy = vi
+				.spyOn(global, "fetch")
+				.mockResolvedValueOnce(
+					new Response(
+						JSON.stringify([
+							apiCommit("aaa111", "Start ODP-8"),
+							apiCommit("bbb222", "More work on ODP-8 and ODP-123"),
+							apiCommit("ccc333", "Closes ODP-9"),
+						]),
+					),
+				)
+				.mockResolvedValueOnce(new Response(JSON.stringify({ id: 1 }), { status: 201 }));
+
+			const result = await handlePullRequestEvent(
+				{
+					...basePREvent,
+					action: "synchronize",
+					before: "aaa111",
+					after: "ccc333",
+					pull_request: { ...basePREvent.pull_request, title: "Login ODP-123" },
+				},
+				odoo,
+				githubConfig,
+				{ scanCommitsOnSync: true },
+			);
+
+			expect(result.processed).toBe(1);
+			expect(odoo.addMessage).toHaveBeenCalledTimes(1);
+			expect(odoo.addMessage).toHaveBeenCalledWith(
+				9,
+				expect.stringContaining("(new commits, closes)"),
+				"testuser",
+			);
+			expect(odoo.setStage).not.toHaveBeenCalled();
+			fetchSpy.mockRestore();
+		});
+	});
+
+	describe("revert pull requests", () => {
+		it("reopens tasks closed by the reverted PR when the revert merges", async () => {
+			const odoo = createMockOdooClient({ stages: { done: 5, reopen: 8 } });
+			const fetchSpy = vi
+				.spyOn(global, "fetch")
+				// Commits of the revert PR
+				.mockResolvedValueOnce(new Response(JSON.stringify([])))
+				// Reverted PR and its commits
+				.mockResolvedValueOnce(
+					new Response(
+						JSON.stringify({
+							number: 40,
+							title: "Closes ODP-5",
+							body: null,
+							html_url: "https://github.com/owner/repo/pull/40",
+							merged_at: "2026-10-01T00:00:00Z",
+							head: { ref: "feature/login" },
+						}),
+					),
+				)
+				.mockResolvedValueOnce(new Response(JSON.stringify([])));
+
+			const result = await handlePullRequestEvent(
+				{
+					...basePREvent,
+					action: "closed",
+					pull_request: {
+						...basePREvent.pull_request,
+						title: 'Revert "Closes ODP-5"',
+						body: "Reverts owner/repo#40",
+						merged: true,
+					},
+				},
+				odoo,
+				{ token: "test-token" },
+			);
+
+			expect(result.errors).toHaveLength(0);
+			expect(fetchSpy).toHaveBeenCalledWith(
+				"https://api.github.com/repos/owner/repo/pulls/40",
+				expect.anything(),
+			);
+			expect(odoo.setStage).toHaveBeenCalledTimes(1);
+			expect(odoo.setStage).toHaveBeenCalledWith(5, 8, null);
+			expect(odoo.addMessage).toHaveBeenCalledWith(
+				5,
+				expect.stringContaining(
+					'Reopened: PR <a href="https://github.com/owner/repo/pull/42">#42</a> reverts PR <a href="https://github.com/owner/repo/pull/40">#40</a>',
+				),
+				"testuser",
+			);
+			fetchSpy.mockRestore();
+		});
+
+		it("reopens once when the merged revert also lands as a push", async () => {
+			const odoo = createMockOdooClient({ stages: { done: 5, reopen: 8 } });
+			const revertPR: PullRequestEvent = {
+				...basePREvent,
+				action: "closed",
+				pull_request: {
+					...basePREvent.pull_request,
+					number: 13,
+					title: 'Revert "Fixes ODP-1"',
+					body: "Reverts owner/repo#12",
+					merged: true,
+				},
+			};
+
+			await handlePushEvent(
+				{
+					ref: "refs/heads/main",
+					repository: {
+						full_name: "owner/repo",
+						html_url: "https://github.com/owner/repo",
+						default_branch: "main",
+					},
+					commits: [
+						{
+							id: "def1234567890",
+							message: 'Revert "Fixes ODP-1" (#13)\n\nReverts owner/repo#12',
+							url: "https://github.com/owner/repo/commit/def1234567890",
+							author: { name: "Test User", email: "test@example.com" },
+						},
+					],
+				},
+				odoo,
+			);
+			await handlePullRequestEvent(revertPR, odoo, null);
+
+			expect(odoo.setStage).toHaveBeenCalledTimes(1);
+			expect(odoo.setStage).toHaveBeenCalledWith(1, 8, null);
+			const reopened = vi
+				.mocked(odoo.addMessage)
+				.mock.calls.filter(([, message]) => message.includes("Reopened"));
+			expect(reopened).toHaveLength(1);
+			// The squash commit's quoted title is not a close of its own
+			expect(odoo.addMessage).not.toHaveBeenCalledWith(
+				1,
+				expect.stringContaining("(closes)"),
+				expect.anything(),
+			);
+		});
+
+		it("does not reopen anything while the revert PR is open", async () => {
+			const odoo = createMockOdooClient();
+
+			await handlePullRequestEvent(
+				{
+					...basePREvent,
+					pull_request: {
+						...basePREvent.pull_request,
+						title: 'Revert "Closes ODP-5"',
+						body: "Reverts owner/repo#40",
+					},
+				},
+				odoo,
+				null,
+			);
+
+			expect(odoo.findTask).not.toHaveBeenCalled();
+			expect(odoo.setStage).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("stage rules", () => {
+		const rules: StageRule[] = [
+			{
+				name: "qa",
+				when: { event: "pull_request", action: "closed", merged: true, labels: "needs-qa" },
+				stage: "QA",
+			},
+			{
+				when: { event: "pull_request", action: "closed", merged: true, branch: "release/*" },
+				stage: { "7": "Released", "*": "Done" },
+			},
+			{ when: { event: "pull_request", action: "closed", merged: true }, stage: null },
+		];
+		const mergedEvent: PullRequestEvent = {
+			...basePREvent,
+			action: "closed",
+			pull_request: { ...basePREvent.pull_request, title: "ODP-123", merged: true },
+		};
+
+		it("moves tasks to the stage of the first matching rule", async () => {
+			const odoo = createMockOdooClient({ stageRules: rules });
+
+			await handlePullRequestEvent(
+				{
+					...mergedEvent,
+					pull_request: { ...mergedEvent.pull_request, labels: [{ name: "needs-qa" }] },
+				},
+				odoo,
+				null,
+			);
+
+			expect(odoo.setStage).toHaveBeenCalledWith(123, "QA", null);
+		});
+
+		it("uses the base branch and the task's project", async () => {
+			const odoo = createMockOdooClient({
+				stageRules: rules,
+				findTask: vi.fn().mockResolvedValue({
+					id: 123,
+					name: "Task",
+					stage_id: [1, "Todo"],
+					project_id: [7, "Web"],
+				}),
+			});
+
+			await handlePullRequestEvent(
+				{
+					...mergedEvent,
+					pull_request: { ...mergedEvent.pull_request, base: { ref: "release/2.0" } },
+				},
+				odoo,
+				null,
+			);
+
+			expect(odoo.setStage).toHaveBeenCalledWith(123, "Released", 7);
+		});
+
+		it("does not move tasks when the matching rule has no stage", async () => {
+			const odoo = createMockOdooClient({ stageRules: rules });
+
+			const result = await handlePullRequestEvent(mergedEvent, odoo, null);
+
+			expect(result.processed).toBe(1);
+			expect(odoo.setStage).not.toHaveBeenCalled();
+		});
+
+		it("applies push rules by branch", async () => {
+			const odoo = createMockOdooClient({
+				stageRules: [{ when: { event: "push", branch: "staging" }, stage: "Staging" }],
+			});
+			const commit = {
+				id: "abc1234567890",
+				message: "Part of ODP-9",
+				url: "https://github.com/owner/repo/commit/abc1234567890",
+				author: { name: "Test User" },
+			};
+			const push: PushEvent = {
+				ref: "refs/heads/staging",
+				repository: { full_name: "owner/repo", html_url: "https://github.com/owner/repo" },
+				commits: [commit],
+			};
+
+			await handlePushEvent(push, odoo);
+			await handlePushEvent({ ...push, ref: "refs/heads/main" }, odoo);
+
+			expect(odoo.setStage).toHaveBeenCalledTimes(1);
+			expect(odoo.setStage).toHaveBeenCalledWith(9, "Staging", null);
+		});
+
+		it("applies branch rules to close keywords pushed to non-closing branches", async () => {
+			const odoo = createMockOdooClient({
+				stageRules: [
+					{ when: { event: "push", refAction: "close" }, stage: "Done" },
+					{ when: { event: "push", branch: "staging" }, stage: "Staging" },
+				],
+			});
+
+			await handlePushEvent(
+				{
+					ref: "refs/heads/staging",
+					repository: {
+						full_name: "owner/repo",
+						html_url: "https://github.com/owner/repo",
+						default_branch: "main",
+					},
+					commits: [
+						{
+							id: "abc1234567890",
+							message: "Fix login\n\nFixes ODP-1",
+							url: "https://github.com/owner/repo/commit/abc1234567890",
+							author: { name: "Test User" },
+						},
+					],
+				},
+				odoo,
+			);
+
+			expect(odoo.setStage).toHaveBeenCalledTimes(1);
+			expect(odoo.setStage).toHaveBeenCalledWith(1, "Staging", null);
+		});
+	});
+
+	describe("monotonic stages", () => {
+		const doneTask = { id: 123, name: "Task", stage_id: [5, "Done"], project_id: [3, "Web"] };
+		const reopenedEvent: PullRequestEvent = {
+			...basePREvent,
+			action: "reopened",
+			pull_request: { ...basePREvent.pull_request, title: "ODP-123" },
+		};
+
+		it("does not move tasks back to an earlier stage", async () => {
+			const odoo = createMockOdooClient({
+				monotonicStages: true,
+				findTask: vi.fn().mockResolvedValue(doneTask),
+				requireStage: vi.fn().mockResolvedValue(2),
+				isBackwardMove: vi.fn().mockResolvedValue(true),
+			});
+
+			const result = await handlePullRequestEvent(reopenedEvent, odoo, null);
+
+			expect(result.processed).toBe(1);
+			expect(odoo.isBackwardMove).toHaveBeenCalledWith(5, 2);
+			expect(odoo.setStage).not.toHaveBeenCalled();
+		});
+
+		it("moves forward with the resolved stage ID", async () => {
+			const odoo = createMockOdooClient({
+				monotonicStages: true,
+				findTask: vi.fn().mockResolvedValue({ ...doneTask, stage_id: [1, "Todo"] }),
+				requireStage: vi.fn().mockResolvedValue(2),
+			});
+
+			await handlePullRequestEvent(reopenedEvent, odoo, null);
+
+			expect(odoo.setStage).toHaveBeenCalledWith(123, 2, 3);
+		});
+
+		it("lets rules with allowBackward move tasks back", async () => {
+			const odoo = createMockOdooClient({
+				monotonicStages: true,
+				stageRules: [
+					{ when: { event: "pull_request", action: "reopened" }, stage: 2, allowBackward: true },
+				],
+				findTask: vi.fn().mockResolvedValue(doneTask),
+				isBackwardMove: vi.fn().mockResolvedValue(true),
+			});
+
+			await handlePullRequestEvent(reopenedEvent, odoo, null);
+
+			expect(odoo.isBackwardMove).not.toHaveBeenCalled();
+			expect(odoo.setStage).toHaveBeenCalledWith(123, 2, 3);
+		});
+
+		it("compares nothing when monotonic stages are off", async () => {
+			const odoo = createMockOdooClient({ findTask: vi.fn().mockResolvedValue(doneTask) });
+
+			await handlePullRequestEvent(reopenedEvent, odoo, null);
+
+			expect(odoo.isBackwardMove).not.toHaveBeenCalled();
+			expect(odoo.setStage).toHaveBeenCalledWith(123, 2, 3);
+		});
+	});
+
+	describe("linked pull requests", () => {
+		const pr = (number: number, action: string, merged = false): PullRequestEvent => ({
+			...basePREvent,
+			action,
+			pull_request: {
+				...basePREvent.pull_request,
+				number,
+				title: "Closes ODP-5",
+				html_url: `https://github.com/owner/repo/pull/${number}`,
+				merged,
+			},
+		});
+
+		it("waits for every closing PR before moving the task to done", async () => {
+			const links = new MemoryLinkStore();
+			const odoo = createMockOdooClient();
+
+			await handlePullRequestEvent(pr(1, "opened"), odoo, null, { links });
+			await handlePullRequestEvent(pr(2, "opened"), odoo, null, { links });
+			vi.mocked(odoo.setStage).mockClear();
+
+			await handlePullRequestEvent(pr(1, "closed", true), odoo, null, { links });
+
+			expect(odoo.setStage).not.toHaveBeenCalled();
+			expect(odoo.addMessage).toHaveBeenLastCalledWith(
+				5,
+				expect.stringContaining(
+					'Not closing yet, waiting for <a href="https://github.com/owner/repo/pull/2">#2</a>',
+				),
+				"testuser",
+			);
+
+			await handlePullRequestEvent(pr(2, "closed", true), odoo, null, { links });
+
+			expect(odoo.setStage).toHaveBeenCalledWith(5, 5, null);
+		});
+
+		it("closes the task when the last open closing PR is closed without merge", async () => {
+			const links = new MemoryLinkStore();
+			const odoo = createMockOdooClient();
+
+			await handlePullRequestEvent(pr(1, "opened"), odoo, null, { links });
+			await handlePullRequestEvent(pr(2, "opened"), odoo, null, { links });
+			await handlePullRequestEvent(pr(1, "closed", true), odoo, null, { links });
+			vi.mocked(odoo.setStage).mockClear();
+
+			await handlePullRequestEvent(pr(2, "closed"), odoo, null, { links });
+
+			expect(odoo.setStage).toHaveBeenCalledTimes(1);
+			expect(odoo.setStage).toHaveBeenCalledWith(5, 5, null);
+		});
+
+		it("ignores PRs that don't declare a close", async () => {
+			const links = new MemoryLinkStore();
+			const odoo = createMockOdooClient();
+			const partOf = pr(2, "opened");
+			partOf.pull_request.title = "Part of ODP-5";
+
+			await handlePullRequestEvent(partOf, odoo, null, { links });
+			await handlePullRequestEvent(pr(1, "closed", true), odoo, null, { links });
+
+			expect(odoo.setStage).toHaveBeenLastCalledWith(5, 5, null);
+			expect(await links.getLinks(5)).toEqual([
+				expect.objectContaining({ number: 2, action: "part", state: "open" }),
+				expect.objectContaining({ number: 1, action: "close", state: "merged" }),
+			]);
+		});
+	});
 });
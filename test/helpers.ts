@@ -0,0 +1,70 @@
+import { afterEach, type MockInstance, vi } from "vitest";
+import type { OdooClient } from "../src/odoo/client.js";
+import { defaultStageRules } from "../src/odoo/rules.js";
+import type { OdooTask } from "../src/odoo/types.js";
+import type { TaskReference } from "../src/parser/references.js";
+
+export const githubConfig = { token: "test-token" };
+
+// Mock OdooClient for the handler tests; every reference resolves to a task with its ID,
+// whose other fields can be set per reference
+export function createMockOdooClient(
+	overrides: Partial<OdooClient> = {},
+	task: (ref: TaskReference) => Partial<OdooTask> = () => ({}),
+): OdooClient {
+	const stages = overrides.stages ?? { done: 5, inProgress: 2, canceled: 6 };
+	return {
+		findTask: vi.fn().mockImplementation(async (ref: TaskReference) => ({
+			id: ref.taskId,
+			name: "Test Task",
+			stage_id: [1, "Todo"],
+			project_id: false,
+			...task(ref),
+		})),
+		addMessage: vi.fn().mockResolvedValue(1),
+		setStage: vi.fn().mockResolvedValue(true),
+		setStages: vi.fn().mockResolvedValue(true),
+		resolveStage: vi.fn().mockResolvedValue(1),
+		requireStage: vi.fn().mockResolvedValue(1),
+		isBackwardMove: vi.fn().mockResolvedValue(false),
+		getUserByEmail: vi.fn().mockResolvedValue(null),
+		getPartnerIdForUser: vi.fn().mockResolvedValue(null),
+		resolveAuthorPartnerId: vi.fn().mockResolvedValue(null),
+		resolveAuthorLink: vi.fn().mockResolvedValue("@testuser"),
+		resolveUser: vi.fn().mockResolvedValue({ id: 10, login: "dev@example.com" }),
+		getEmployeeIdForUser: vi.fn().mockResolvedValue(77),
+		createTimesheet: vi.fn().mockResolvedValue(1),
+		resolveTagId: vi.fn().mockResolvedValue(31),
+		addTaskTags: vi.fn().mockResolvedValue(true),
+		setTaskPriority: vi.fn().mockResolvedValue(true),
+		assignTask: vi.fn().mockResolvedValue(true),
+		setTaskDeadline: vi.fn().mockResolvedValue(true),
+		parserOptions: {},
+		monotonicStages: false,
+		stages,
+		stageRules: defaultStageRules(stages),
+		...overrides,
+	} as unknown as OdooClient;
+}
+
+let fetchSpy: MockInstance<typeof fetch> | null = null;
+
+// Spies on fetch for the current test; the spy is restored after it
+export function spyOnFetch(): MockInstance<typeof fetch> {
+	fetchSpy = vi.spyOn(globalThis, "fetch");
+	return fetchSpy;
+}
+
+afterEach(() => {
+	fetchSpy?.mockRestore();
+	fetchSpy = null;
+});
+
+// A commit as listed by the compare and PR commits APIs
+export const githubCommit = (sha: string, message: string, parents = 1) => ({
+	sha,
+	html_url: `https://github.com/owner/repo/commit/${sha}`,
+	commit: { message, author: { name: "Test User" } },
+	author: null,
+	parents: Array.from({ length: parents }, (_, i) => ({ sha: `p${i}` })),
+});
@@ -217,6 +217,8 @@ describe("Worker Integration", () => {
 					html_url: "https://github.com/owner/repo/pull/42",
 					merged: false,
 					draft: false,
+					head: { ref: "feature/test" },
+					base: { ref: "main" },
 					user: { login: "testuser" },
 				},
 				repository: {
@@ -261,6 +263,8 @@ describe("Worker Integration", () => {
 					html_url: "https://github.com/owner/repo/pull/42",
 					merged: true,
 					draft: false,
+					head: { ref: "feature/test" },
+					base: { ref: "main" },
 					user: { login: "testuser" },
 				},
 				repository: {
@@ -287,6 +291,57 @@ describe("Worker Integration", () => {
 		});
 	});
 
+	describe("pull_request_review events", () => {
+		it("posts review outcome on referenced tasks", async () => {
+			mockOdooResponses([
+				42, // auth
+				[{ id: 123, name: "Test Task", stage_id: [1, "Todo"] }], // getTask
+				[{ id: 1, name: "Note" }], // getNoteSubtypeId
+				1, // addMessage
+			]);
+
+			const payload = JSON.stringify({
+				action: "submitted",
+				review: {
+					state: "approved",
+					body: "LGTM",
+					html_url: "https://github.com/owner/repo/pull/42#pullrequestreview-1",
+					user: { login: "reviewer" },
+				},
+				pull_request: {
+					number: 42,
+					title: "Add feature ODP-123",
+					body: null,
+					html_url: "https://github.com/owner/repo/pull/42",
+					state: "open",
+					head: { ref: "feature/test" },
+					base: { ref: "main" },
+				},
+				repository: {
+					owner: { login: "owner" },
+					name: "repo",
+					full_name: "owner/repo",
+				},
+			});
+			const signature = await createSignature(payload, "test-secret");
+
+			const request = new Request("http://localhost/webhook", {
+				method: "POST",
+				body: payload,
+				headers: {
+					"x-github-event": "pull_request_review",
+					"x-hub-signature-256": signature,
+				},
+			});
+			const response = await worker.fetch(request, testEnv);
+
+			expect(response.status).toBe(200);
+			const json = (await response.json()) as { event: string; processed: number };
+			expect(json.event).toBe("pull_request_review");
+			expect(json.processed).toBe(1);
+		});
+	});
+
 	describe("unhandled events", () => {
 		it("acknowledges unhandled event types", async () => {
 			const payload = '{"action":"created"}';
@@ -357,6 +412,8 @@ describe("Worker Integration", () => {
 					html_url: "https://github.com/owner/repo/pull/42",
 					merged: false,
 					draft: false,
+					head: { ref: "feature/test" },
+					base: { ref: "main" },
 					user: { login: "testuser" },
 				},
 				repository: {
@@ -405,6 +462,8 @@ describe("Worker Integration", () => {
 					html_url: "https://github.com/owner/repo/pull/42",
 					merged: false,
 					draft: false,
+					head: { ref: "feature/test" },
+					base: { ref: "main" },
 					user: { login: "testuser" },
 				},
 				repository: {
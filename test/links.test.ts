@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { KVLinkStore, MemoryLinkStore, type PullRequestLink } from "../src/store/links.js";
+
+// Minimal KV namespace keeping values in a map
+function createKV(): KVNamespace {
+	const values = new Map<string, string>();
+	return {
+		get: async (key: string, type?: string) => {
+			const value = values.get(key);
+			if (value === undefined) return null;
+			return type === "json" ? JSON.parse(value) : value;
+		},
+		put: async (key: string, value: string) => {
+			values.set(key, value);
+		},
+		delete: async (key: string) => {
+			values.delete(key);
+		},
+	} as unknown as KVNamespace;
+}
+
+const link = (number: number, overrides: Partial<PullRequestLink> = {}): PullRequestLink => ({
+	repository: "owner/repo",
+	number,
+	url: `https://github.com/owner/repo/pull/${number}`,
+	action: "close",
+	state: "open",
+	...overrides,
+});
+
+describe.each([
+	["KVLinkStore", () => new KVLinkStore(createKV())],
+	["MemoryLinkStore", () => new MemoryLinkStore()],
+])("%s", (_name, createStore) => {
+	it("returns no links for unknown tasks", async () => {
+		expect(await createStore().getLinks(5)).toEqual([]);
+	});
+
+	it("adds links per task and updates them by repository and number", async () => {
+		const store = createStore();
+
+		await store.saveLink(5, link(1));
+		await store.saveLink(5, link(2));
+		await store.saveLink(5, link(1, { repository: "owner/other" }));
+		const links = await store.saveLink(5, link(1, { state: "merged" }));
+
+		expect(links).toHaveLength(3);
+		expect(links.find((l) => l.repository === "owner/repo" && l.number === 1)?.state).toBe(
+			"merged",
+		);
+		expect(await store.getLinks(5)).toEqual(links);
+		expect(await store.getLinks(6)).toEqual([]);
+	});
+
+	it("removes a PR's link from the task", async () => {
+		const store = createStore();
+
+		await store.saveLink(5, link(1));
+		await store.saveLink(5, link(2));
+		await store.removeLink(5, "owner/repo", 1);
+		await store.removeLink(6, "owner/repo", 1);
+
+		expect(await store.getLinks(5)).toEqual([link(2)]);
+
+		await store.removeLink(5, "owner/repo", 2);
+		expect(await store.getLinks(5)).toEqual([]);
+	});
+});
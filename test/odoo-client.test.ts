@@ -65,6 +65,89 @@ describe("OdooClient", () => {
 
 			await expect(client.getTask(123)).rejects.toThrow("Odoo RPC error: Access denied");
 		});
+
+		it("restricts lookup to the given project", async () => {
+			fetchSpy = mockFetch([authResponse, { result: [] }]);
+
+			const client = new OdooClient(baseConfig);
+			const result = await client.getTask(12, 7);
+
+			expect(result).toBeNull();
+			const callBody = JSON.parse((fetchSpy.mock.calls[1][1] as RequestInit).body as string);
+			expect(callBody.params.args[5][0]).toEqual([
+				["id", "=", 12],
+				["project_id", "=", 7],
+			]);
+		});
+	});
+
+	describe("findTask", () => {
+		const ref = { action: "ref" as const, taskId: 123, prefix: "ODP" };
+
+		it("looks up by database ID when no key field is configured", async () => {
+			const task = { id: 123, name: "Test Task", stage_id: [1, "Todo"], project_id: false };
+			fetchSpy = mockFetch([authResponse, { result: [task] }]);
+
+			const client = new OdooClient(baseConfig);
+			const result = await client.findTask(ref);
+
+			expect(result).toEqual(task);
+			const callBody = JSON.parse((fetchSpy.mock.calls[1][1] as RequestInit).body as string);
+			expect(callBody.params.args[5][0]).toEqual([["id", "=", 123]]);
+		});
+
+		it("resolves by the configured key field within the mapped project", async () => {
+			const task = { id: 9001, name: "Test Task", stage_id: [1, "Todo"], project_id: [7, "Web"] };
+			fetchSpy = mockFetch([authResponse, { result: [task] }]);
+
+			const client = new OdooClient({ ...baseConfig, taskKeyField: "sequence" });
+			const result = await client.findTask({ ...ref, prefix: "WEB", projectId: 7 });
+
+			expect(result).toEqual(task);
+			const callBody = JSON.parse((fetchSpy.mock.calls[1][1] as RequestInit).body as string);
+			expect(callBody.params.args[5][0]).toEqual([
+				["sequence", "=", 123],
+				["project_id", "=", 7],
+			]);
+		});
+
+		it("matches the full task key when configured", async () => {
+			fetchSpy = mockFetch([authResponse, { result: [] }]);
+
+			const client = new OdooClient({
+				...baseConfig,
+				taskKeyField: "x_task_code",
+				taskKeyValue: "key",
+			});
+			const result = await client.findTask(ref);
+
+			expect(result).toBeNull();
+			const callBody = JSON.parse((fetchSpy.mock.calls[1][1] as RequestInit).body as string);
+			expect(callBody.params.args[5][0]).toEqual([["x_task_code", "=", "ODP-123"]]);
+		});
+
+		it("looks up task URL references by database ID", async () => {
+			fetchSpy = mockFetch([authResponse, { result: [] }]);
+
+			const client = new OdooClient({ ...baseConfig, taskKeyField: "sequence" });
+			await client.findTask({ action: "ref", taskId: 123, projectId: 5 });
+
+			const callBody = JSON.parse((fetchSpy.mock.calls[1][1] as RequestInit).body as string);
+			expect(callBody.params.args[5][0]).toEqual([
+				["id", "=", 123],
+				["project_id", "=", 5],
+			]);
+		});
+
+		it("throws when the key matches multiple tasks", async () => {
+			fetchSpy = mockFetch([authResponse, { result: [{ id: 1 }, { id: 2 }] }]);
+
+			const client = new OdooClient({ ...baseConfig, taskKeyField: "sequence" });
+
+			await expect(client.findTask(ref)).rejects.toThrow(
+				"Ambiguous task key: ODP-123 matches multiple tasks by sequence",
+			);
+		});
 	});
 
 	describe("addMessage", () => {
@@ -156,6 +239,53 @@ describe("OdooClient", () => {
 			);
 		});
 
+		it("resolves stage names among the task project's stages", async () => {
+			fetchSpy = mockFetch([
+				authResponse,
+				{ result: [{ id: 15, name: "Done" }] }, // resolveStage
+				{ result: true }, // write
+			]);
+
+			const client = new OdooClient(baseConfig);
+			await client.setStage(123, "Done", 7);
+
+			const searchBody = JSON.parse((fetchSpy.mock.calls[1][1] as RequestInit).body as string);
+			expect(searchBody.params.args[3]).toBe("project.task.type");
+			expect(searchBody.params.args[5]).toEqual([
+				[
+					["name", "=", "Done"],
+					["project_ids", "in", [7]],
+				],
+			]);
+			const writeBody = JSON.parse((fetchSpy.mock.calls[2][1] as RequestInit).body as string);
+			expect(writeBody.params.args[5][1]).toEqual({ stage_id: 15 });
+		});
+
+		it("caches stage names per project", async () => {
+			fetchSpy = mockFetch([
+				authResponse,
+				{ result: [{ id: 15, name: "Done" }] }, // project 7
+				{ result: [{ id: 25, name: "Done" }] }, // project 8
+			]);
+
+			const client = new OdooClient(baseConfig);
+
+			expect(await client.resolveStage("Done", 7)).toBe(15);
+			expect(await client.resolveStage("Done", 8)).toBe(25);
+			expect(await client.resolveStage("Done", 7)).toBe(15);
+			expect(fetchSpy).toHaveBeenCalledTimes(3);
+		});
+
+		it("names the project when its stage is missing", async () => {
+			fetchSpy = mockFetch([authResponse, { result: [] }]);
+
+			const client = new OdooClient(baseConfig);
+
+			await expect(client.setStage(123, "Shipped", 7)).rejects.toThrow(
+				'Stage "Shipped" not found in project 7',
+			);
+		});
+
 		it("throws when Odoo write returns false", async () => {
 			fetchSpy = mockFetch([authResponse, { result: false }]);
 
@@ -167,6 +297,72 @@ describe("OdooClient", () => {
 		});
 	});
 
+	describe("setStages", () => {
+		it("moves several tasks with one write", async () => {
+			fetchSpy = mockFetch([authResponse, { result: true }]);
+
+			const client = new OdooClient(baseConfig);
+			await client.setStages([1, 2, 3], 9);
+
+			expect(fetchSpy).toHaveBeenCalledTimes(2);
+			const writeBody = JSON.parse((fetchSpy.mock.calls[1][1] as RequestInit).body as string);
+			expect(writeBody.params.args[4]).toBe("write");
+			expect(writeBody.params.args[5]).toEqual([[1, 2, 3], { stage_id: 9 }]);
+		});
+	});
+
+	describe("isBackwardMove", () => {
+		const stages = {
+			result: [
+				{ id: 2, name: "In Progress", sequence: 10 },
+				{ id: 5, name: "Done", sequence: 20 },
+			],
+		};
+
+		it("compares stage sequences", async () => {
+			fetchSpy = mockFetch([authResponse, stages]);
+
+			const client = new OdooClient(baseConfig);
+
+			expect(await client.isBackwardMove(5, 2)).toBe(true);
+			expect(await client.isBackwardMove(2, 5)).toBe(false);
+			expect(await client.isBackwardMove(5, 5)).toBe(false);
+			// Sequences are cached after the first lookup
+			expect(fetchSpy).toHaveBeenCalledTimes(2);
+			const callBody = JSON.parse((fetchSpy.mock.calls[1][1] as RequestInit).body as string);
+			expect(callBody.params.args[3]).toBe("project.task.type");
+			expect(callBody.params.args[6].fields).toEqual(["id", "name", "sequence"]);
+		});
+
+		it("orders stages with equal sequences by ID", async () => {
+			fetchSpy = mockFetch([
+				authResponse,
+				{
+					result: [
+						{ id: 7, name: "Review", sequence: 1 },
+						{ id: 9, name: "QA", sequence: 1 },
+					],
+				},
+			]);
+
+			const client = new OdooClient(baseConfig);
+
+			expect(await client.isBackwardMove(9, 7)).toBe(true);
+			expect(await client.isBackwardMove(7, 9)).toBe(false);
+		});
+
+		it("throws when a stage does not exist", async () => {
+			fetchSpy = mockFetch([
+				authResponse,
+				{ result: [{ id: 2, name: "In Progress", sequence: 1 }] },
+			]);
+
+			const client = new OdooClient(baseConfig);
+
+			await expect(client.isBackwardMove(2, 99)).rejects.toThrow("Stage not found: 99");
+		});
+	});
+
 	describe("getUserByEmail", () => {
 		it("returns user when found", async () => {
 			const user = {
@@ -193,6 +389,109 @@ describe("OdooClient", () => {
 		});
 	});
 
+	describe("timesheets", () => {
+		it("finds the employee linked to a user", async () => {
+			fetchSpy = mockFetch([authResponse, { result: [{ id: 77, name: "Dev" }] }]);
+
+			const client = new OdooClient(baseConfig);
+			const result = await client.getEmployeeIdForUser(10);
+
+			expect(result).toBe(77);
+			const callBody = JSON.parse((fetchSpy.mock.calls[1][1] as RequestInit).body as string);
+			expect(callBody.params.args[3]).toBe("hr.employee");
+			expect(callBody.params.args[5][0]).toEqual([["user_id", "=", 10]]);
+		});
+
+		it("returns null when the user has no employee", async () => {
+			fetchSpy = mockFetch([authResponse, { result: [] }]);
+
+			const client = new OdooClient(baseConfig);
+
+			expect(await client.getEmployeeIdForUser(10)).toBeNull();
+		});
+
+		it("creates an analytic line on the task", async () => {
+			fetchSpy = mockFetch([authResponse, { result: 501 }]);
+
+			const client = new OdooClient(baseConfig);
+			const result = await client.createTimesheet({
+				taskId: 123,
+				projectId: 7,
+				employeeId: 77,
+				hours: 1.5,
+				description: "Investigated login bug",
+				date: "2026-10-19",
+			});
+
+			expect(result).toBe(501);
+			const callBody = JSON.parse((fetchSpy.mock.calls[1][1] as RequestInit).body as string);
+			expect(callBody.params.args[3]).toBe("account.analytic.line");
+			expect(callBody.params.args[4]).toBe("create");
+			expect(callBody.params.args[5][0]).toEqual({
+				task_id: 123,
+				project_id: 7,
+				employee_id: 77,
+				unit_amount: 1.5,
+				name: "Investigated login bug",
+				date: "2026-10-19",
+			});
+		});
+	});
+
+	describe("task field helpers", () => {
+		it("resolves tags by name case-insensitively and caches them", async () => {
+			fetchSpy = mockFetch([authResponse, { result: [{ id: 31, name: "Backend" }] }]);
+
+			const client = new OdooClient(baseConfig);
+			expect(await client.resolveTagId("backend")).toBe(31);
+			expect(await client.resolveTagId("Backend")).toBe(31);
+
+			expect(fetchSpy).toHaveBeenCalledTimes(2); // Auth + one lookup
+			const callBody = JSON.parse((fetchSpy.mock.calls[1][1] as RequestInit).body as string);
+			expect(callBody.params.args[3]).toBe("project.tags");
+			expect(callBody.params.args[5][0]).toEqual([["name", "=ilike", "backend"]]);
+		});
+
+		it.each([
+			[
+				"addTaskTags",
+				(c: OdooClient) => c.addTaskTags(123, [31, 32]),
+				{
+					tag_ids: [
+						[4, 31],
+						[4, 32],
+					],
+				},
+			],
+			["setTaskPriority", (c: OdooClient) => c.setTaskPriority(123, "1"), { priority: "1" }],
+			["assignTask", (c: OdooClient) => c.assignTask(123, 12), { user_ids: [[4, 12]] }],
+			[
+				"setTaskDeadline",
+				(c: OdooClient) => c.setTaskDeadline(123, "2026-11-01"),
+				{ date_deadline: "2026-11-01" },
+			],
+		])("%s writes the task", async (_name, call, values) => {
+			fetchSpy = mockFetch([authResponse, { result: true }]);
+
+			const client = new OdooClient(baseConfig);
+			await call(client);
+
+			const callBody = JSON.parse((fetchSpy.mock.calls[1][1] as RequestInit).body as string);
+			expect(callBody.params.args[4]).toBe("write");
+			expect(callBody.params.args[5]).toEqual([[123], values]);
+		});
+
+		it("throws when a task write returns false", async () => {
+			fetchSpy = mockFetch([authResponse, { result: false }]);
+
+			const client = new OdooClient(baseConfig);
+
+			await expect(client.setTaskPriority(123, "1")).rejects.toThrow(
+				"Task update returned false for task 123 (fields: priority)",
+			);
+		});
+	});
+
 	describe("resolveAuthorPartnerId", () => {
 		it("returns null when no email and no default user", async () => {
 			const client = new OdooClient(baseConfig);
@@ -1,62 +1,70 @@
 import { describe, expect, it } from "vitest";
-import { parseReferences } from "../src/parser/references.js";
+import {
+	hasSkipDirective,
+	mergeReferences,
+	parseBranchReferences,
+	parseDuration,
+	parseMessageReferences,
+	parseReferences,
+	parseSmartCommands,
+} from "../src/parser/references.js";
 
 describe("parseReferences", () => {
 	it("parses bare ODP references as ref action", () => {
 		const result = parseReferences("Working on ODP-123");
-		expect(result).toEqual([{ action: "ref", taskId: 123 }]);
+		expect(result).toEqual([{ action: "ref", taskId: 123, prefix: "ODP" }]);
 	});
 
 	it("parses Closes keyword as close action", () => {
 		const result = parseReferences("Closes ODP-456");
-		expect(result).toEqual([{ action: "close", taskId: 456 }]);
+		expect(result).toEqual([{ action: "close", taskId: 456, prefix: "ODP" }]);
 	});
 
 	it("parses Fixes keyword as close action", () => {
 		const result = parseReferences("Fixes ODP-789");
-		expect(result).toEqual([{ action: "close", taskId: 789 }]);
+		expect(result).toEqual([{ action: "close", taskId: 789, prefix: "ODP" }]);
 	});
 
 	it("parses Resolves keyword as close action", () => {
 		const result = parseReferences("Resolves ODP-111");
-		expect(result).toEqual([{ action: "close", taskId: 111 }]);
+		expect(result).toEqual([{ action: "close", taskId: 111, prefix: "ODP" }]);
 	});
 
 	it("parses Refs keyword as ref action", () => {
 		const result = parseReferences("Refs ODP-222");
-		expect(result).toEqual([{ action: "ref", taskId: 222 }]);
+		expect(result).toEqual([{ action: "ref", taskId: 222, prefix: "ODP" }]);
 	});
 
 	it("parses References keyword as ref action", () => {
 		const result = parseReferences("References ODP-333");
-		expect(result).toEqual([{ action: "ref", taskId: 333 }]);
+		expect(result).toEqual([{ action: "ref", taskId: 333, prefix: "ODP" }]);
 	});
 
 	it("is case-insensitive", () => {
 		const result = parseReferences("CLOSES odp-100 and fixes ODP-200");
 		expect(result).toEqual([
-			{ action: "close", taskId: 100 },
-			{ action: "close", taskId: 200 },
+			{ action: "close", taskId: 100, prefix: "ODP" },
+			{ action: "close", taskId: 200, prefix: "ODP" },
 		]);
 	});
 
 	it("parses multiple references in one text", () => {
 		const result = parseReferences("Closes ODP-1, refs ODP-2, and mentions ODP-3");
 		expect(result).toEqual([
-			{ action: "close", taskId: 1 },
-			{ action: "ref", taskId: 2 },
-			{ action: "ref", taskId: 3 },
+			{ action: "close", taskId: 1, prefix: "ODP" },
+			{ action: "ref", taskId: 2, prefix: "ODP" },
+			{ action: "ref", taskId: 3, prefix: "ODP" },
 		]);
 	});
 
 	it("deduplicates repeated references", () => {
 		const result = parseReferences("ODP-123 mentioned again ODP-123");
-		expect(result).toEqual([{ action: "ref", taskId: 123 }]);
+		expect(result).toEqual([{ action: "ref", taskId: 123, prefix: "ODP" }]);
 	});
 
 	it("prioritizes close action when task appears multiple times", () => {
 		const result = parseReferences("ODP-123 in title\n\nCloses ODP-123 in body");
-		expect(result).toEqual([{ action: "close", taskId: 123 }]);
+		expect(result).toEqual([{ action: "close", taskId: 123, prefix: "ODP" }]);
 	});
 
 	it("returns empty array when no references found", () => {
@@ -72,13 +80,387 @@ describe("parseReferences", () => {
 			Also refs ODP-501
 		`);
 		expect(result).toEqual([
-			{ action: "close", taskId: 500 },
-			{ action: "ref", taskId: 501 },
+			{ action: "close", taskId: 500, prefix: "ODP" },
+			{ action: "ref", taskId: 501, prefix: "ODP" },
 		]);
 	});
 
 	it("handles references in markdown links", () => {
 		const result = parseReferences("See [ODP-123](https://example.com) for details");
-		expect(result).toEqual([{ action: "ref", taskId: 123 }]);
+		expect(result).toEqual([{ action: "ref", taskId: 123, prefix: "ODP" }]);
+	});
+
+	describe("reference grammar", () => {
+		it("applies a keyword to every key in a comma/and list", () => {
+			const result = parseReferences("Fixes ODP-1, ODP-2 and ODP-3");
+			expect(result).toEqual([
+				{ action: "close", taskId: 1, prefix: "ODP" },
+				{ action: "close", taskId: 2, prefix: "ODP" },
+				{ action: "close", taskId: 3, prefix: "ODP" },
+			]);
+		});
+
+		it("supports Oxford commas and ampersands in lists", () => {
+			const result = parseReferences("Resolves ODP-1, ODP-2, and ODP-3 & ODP-4");
+			expect(result.map((r) => r.action)).toEqual(["close", "close", "close", "close"]);
+		});
+
+		it.each([
+			"close",
+			"closes",
+			"closed",
+			"fix",
+			"fixes",
+			"fixed",
+			"resolve",
+			"resolves",
+			"resolved",
+		])("treats %s as a closing keyword", (keyword) => {
+			expect(parseReferences(`${keyword} ODP-9`)).toEqual([
+				{ action: "close", taskId: 9, prefix: "ODP" },
+			]);
+		});
+
+		it("accepts a colon after the keyword", () => {
+			expect(parseReferences("Fixes: ODP-9")).toEqual([
+				{ action: "close", taskId: 9, prefix: "ODP" },
+			]);
+		});
+
+		it("parses Part of and Related to relationships", () => {
+			const result = parseReferences("Part of ODP-1, ODP-2\nRelated to ODP-3\nRelates  to ODP-4");
+			expect(result).toEqual([
+				{ action: "part", taskId: 1, prefix: "ODP" },
+				{ action: "part", taskId: 2, prefix: "ODP" },
+				{ action: "related", taskId: 3, prefix: "ODP" },
+				{ action: "related", taskId: 4, prefix: "ODP" },
+			]);
+		});
+
+		it("stops a list at the next keyword", () => {
+			const result = parseReferences("Closes ODP-1 and refs ODP-2, ODP-3");
+			expect(result).toEqual([
+				{ action: "close", taskId: 1, prefix: "ODP" },
+				{ action: "ref", taskId: 2, prefix: "ODP" },
+				{ action: "ref", taskId: 3, prefix: "ODP" },
+			]);
+		});
+
+		it("does not treat words ending in a keyword as keywords", () => {
+			expect(parseReferences("prefix ODP-1")).toEqual([
+				{ action: "ref", taskId: 1, prefix: "ODP" },
+			]);
+		});
+
+		it("keeps the strongest relationship for repeated tasks", () => {
+			const result = parseReferences("Related to ODP-1. Part of ODP-1. Refs ODP-1");
+			expect(result).toEqual([{ action: "part", taskId: 1, prefix: "ODP" }]);
+		});
+
+		it("keeps order of appearance across keyword lists and bare keys", () => {
+			const result = parseReferences("ODP-5 is related, closes ODP-6");
+			expect(result).toEqual([
+				{ action: "ref", taskId: 5, prefix: "ODP" },
+				{ action: "close", taskId: 6, prefix: "ODP" },
+			]);
+		});
+	});
+
+	describe("Markdown-aware extraction", () => {
+		it("ignores references inside fenced code blocks", () => {
+			const result = parseReferences("Refs ODP-1\n\n```\nCloses ODP-2\n```\n~~~sh\nODP-3\n~~~");
+			expect(result).toEqual([{ action: "ref", taskId: 1, prefix: "ODP" }]);
+		});
+
+		it("treats an unclosed fence as code until the end", () => {
+			const result = parseReferences("ODP-1\n```\nCloses ODP-2");
+			expect(result).toEqual([{ action: "ref", taskId: 1, prefix: "ODP" }]);
+		});
+
+		it("ignores references inside inline code spans", () => {
+			const result = parseReferences("Use `Closes ODP-2` to close, this refs ODP-1");
+			expect(result).toEqual([{ action: "ref", taskId: 1, prefix: "ODP" }]);
+		});
+
+		it("ignores references in blockquotes", () => {
+			const result = parseReferences("> Closes ODP-12\n> > ODP-13\n\nRefs ODP-14");
+			expect(result).toEqual([{ action: "ref", taskId: 14, prefix: "ODP" }]);
+		});
+
+		it("ignores references inside HTML comments", () => {
+			const result = parseReferences("<!-- e.g. Closes ODP-12\n-->\nFixes ODP-15");
+			expect(result).toEqual([{ action: "close", taskId: 15, prefix: "ODP" }]);
+		});
+	});
+
+	describe("configured prefixes", () => {
+		const prefixes = { WEB: 7, OPS: 9, ODP: null };
+
+		it("parses references for every configured prefix", () => {
+			const result = parseReferences("Closes WEB-12, refs OPS-3 and ODP-4", { prefixes });
+			expect(result).toEqual([
+				{ action: "close", taskId: 12, prefix: "WEB", projectId: 7 },
+				{ action: "ref", taskId: 3, prefix: "OPS", projectId: 9 },
+				{ action: "ref", taskId: 4, prefix: "ODP" },
+			]);
+		});
+
+		it("keeps same task number under different prefixes apart", () => {
+			const result = parseReferences("WEB-12 and OPS-12", { prefixes });
+			expect(result).toEqual([
+				{ action: "ref", taskId: 12, prefix: "WEB", projectId: 7 },
+				{ action: "ref", taskId: 12, prefix: "OPS", projectId: 9 },
+			]);
+		});
+
+		it("ignores unconfigured prefixes", () => {
+			const result = parseReferences("Fixes ODP-1 and WEB-2", { prefixes: { WEB: 7 } });
+			expect(result).toEqual([{ action: "ref", taskId: 2, prefix: "WEB", projectId: 7 }]);
+		});
+
+		it("does not match prefixes embedded in longer words", () => {
+			const result = parseReferences("XWEB-5 and WEB-6", { prefixes });
+			expect(result).toEqual([{ action: "ref", taskId: 6, prefix: "WEB", projectId: 7 }]);
+		});
+
+		it("does not match keys followed by letters or digits", () => {
+			const result = parseReferences("ODP-6x, ODP-1@example.com and ODP-7.", { prefixes });
+			expect(result).toEqual([{ action: "ref", taskId: 7, prefix: "ODP" }]);
+		});
+
+		it("returns empty array when no prefixes are configured", () => {
+			expect(parseReferences("ODP-1", { prefixes: {} })).toEqual([]);
+		});
+	});
+
+	describe("Odoo task URLs", () => {
+		const odooUrl = "https://odoo.example.com";
+
+		it("parses legacy /web# task links", () => {
+			const result = parseReferences(
+				"See https://odoo.example.com/web#id=123&cids=1&model=project.task&view_type=form",
+				{ odooUrl },
+			);
+			expect(result).toEqual([{ action: "ref", taskId: 123 }]);
+		});
+
+		it("parses Odoo 17+ project task links with their project", () => {
+			const result = parseReferences("Closes https://odoo.example.com/odoo/project/5/tasks/123", {
+				odooUrl,
+			});
+			expect(result).toEqual([{ action: "close", taskId: 123, projectId: 5 }]);
+		});
+
+		it("parses project.task and my-tasks links", () => {
+			const result = parseReferences(
+				"https://odoo.example.com/odoo/project.task/7 and https://odoo.example.com/odoo/my-tasks/8",
+				{ odooUrl },
+			);
+			expect(result).toEqual([
+				{ action: "ref", taskId: 7 },
+				{ action: "ref", taskId: 8 },
+			]);
+		});
+
+		it("detects keywords before Markdown links", () => {
+			const result = parseReferences(
+				"Fixes [Login bug](https://odoo.example.com/odoo/project/5/tasks/42)",
+				{ odooUrl },
+			);
+			expect(result).toEqual([{ action: "close", taskId: 42, projectId: 5 }]);
+		});
+
+		it("ignores links to other hosts and other models", () => {
+			const result = parseReferences(
+				"https://other.example.com/odoo/project/5/tasks/1 " +
+					"https://odoo.example.com/web#id=2&model=res.partner",
+				{ odooUrl },
+			);
+			expect(result).toEqual([]);
+		});
+
+		it("ignores task links when no Odoo URL is configured", () => {
+			expect(parseReferences("https://odoo.example.com/odoo/project/5/tasks/1")).toEqual([]);
+		});
+
+		it("returns key references alongside URL references", () => {
+			const result = parseReferences(
+				"Refs ODP-1, closes https://odoo.example.com/odoo/project.task/2",
+				{ odooUrl },
+			);
+			expect(result).toEqual([
+				{ action: "ref", taskId: 1, prefix: "ODP" },
+				{ action: "close", taskId: 2 },
+			]);
+		});
+	});
+});
+
+describe("parseBranchReferences", () => {
+	it("parses task keys from branch refs as ref action", () => {
+		const result = parseBranchReferences("refs/heads/feature/ODP-431-login-fix");
+		expect(result).toEqual([{ action: "ref", taskId: 431, prefix: "ODP", source: "branch" }]);
+	});
+
+	it("parses plain branch names", () => {
+		const result = parseBranchReferences("fix_odp-12");
+		expect(result).toEqual([{ action: "ref", taskId: 12, prefix: "ODP", source: "branch" }]);
+	});
+
+	it("never closes tasks from branch names", () => {
+		const result = parseBranchReferences("refs/heads/closes ODP-1");
+		expect(result).toEqual([{ action: "ref", taskId: 1, prefix: "ODP", source: "branch" }]);
+	});
+
+	it("uses configured prefixes", () => {
+		const result = parseBranchReferences("refs/heads/WEB-7-header", { prefixes: { WEB: 3 } });
+		expect(result).toEqual([
+			{ action: "ref", taskId: 7, prefix: "WEB", projectId: 3, source: "branch" },
+		]);
+	});
+
+	it("ignores tag refs", () => {
+		expect(parseBranchReferences("refs/tags/ODP-1")).toEqual([]);
+	});
+});
+
+describe("parseMessageReferences", () => {
+	it("records the source of each reference", () => {
+		const result = parseMessageReferences(
+			"Login form ODP-1",
+			"Also touches ODP-2.\n\nCloses: ODP-3\nSigned-off-by: Dev <dev@example.com>",
+		);
+		expect(result).toEqual([
+			{ action: "ref", taskId: 1, prefix: "ODP", source: "title" },
+			{ action: "ref", taskId: 2, prefix: "ODP", source: "body" },
+			{ action: "close", taskId: 3, prefix: "ODP", source: "trailer" },
+		]);
+	});
+
+	it("applies the trailer action to every task in the value", () => {
+		const result = parseMessageReferences("Refactor", "Part-of: ODP-1, ODP-2\nOdoo-Task: ODP-3");
+		expect(result).toEqual([
+			{ action: "part", taskId: 1, prefix: "ODP", source: "trailer" },
+			{ action: "part", taskId: 2, prefix: "ODP", source: "trailer" },
+			{ action: "ref", taskId: 3, prefix: "ODP", source: "trailer" },
+		]);
+	});
+
+	it("prefers trailer-declared intent over free-text mentions", () => {
+		const result = parseMessageReferences(
+			"Partially fixes ODP-55",
+			"More work on it.\n\nPart-of: ODP-55",
+		);
+		expect(result).toEqual([{ action: "part", taskId: 55, prefix: "ODP", source: "trailer" }]);
+	});
+
+	it("keeps a free-text close when a trailer only links the task", () => {
+		const result = parseMessageReferences("Login", "Fixes ODP-7\n\nOdoo-Task: ODP-7");
+		expect(result).toEqual([{ action: "close", taskId: 7, prefix: "ODP", source: "trailer" }]);
+	});
+
+	it("still searches unrecognized trailers as free text", () => {
+		const result = parseMessageReferences("Refactor", "Note: closes ODP-4");
+		expect(result).toEqual([{ action: "close", taskId: 4, prefix: "ODP", source: "body" }]);
+	});
+
+	it("ignores trailer paragraphs inside HTML comments and code blocks", () => {
+		const result = parseMessageReferences(
+			"Refactor",
+			"<!--\n\nCloses: ODP-123\n\n-->\n\n```\nExample:\n\nCloses: ODP-124\n\n```",
+		);
+		expect(result).toEqual([]);
+	});
+});
+
+describe("mergeReferences", () => {
+	it("deduplicates across lists and prefers close", () => {
+		const result = mergeReferences(
+			[{ action: "ref", taskId: 1, prefix: "ODP" }],
+			[
+				{ action: "close", taskId: 1, prefix: "ODP" },
+				{ action: "ref", taskId: 2, prefix: "ODP" },
+			],
+		);
+		expect(result).toEqual([
+			{ action: "close", taskId: 1, prefix: "ODP" },
+			{ action: "ref", taskId: 2, prefix: "ODP" },
+		]);
+	});
+});
+
+describe("hasSkipDirective", () => {
+	it("detects skip and no directives case-insensitively", () => {
+		expect(hasSkipDirective("Fix typo [skip odoo]")).toBe(true);
+		expect(hasSkipDirective("[No Odoo] Refs ODP-1")).toBe(true);
+		expect(hasSkipDirective("Refs ODP-1\n\n[skip-odoo]")).toBe(true);
+	});
+
+	it("returns false without a directive", () => {
+		expect(hasSkipDirective("Refs ODP-1 [skip ci]")).toBe(false);
+	});
+
+	it("ignores directives inside code spans", () => {
+		expect(hasSkipDirective("Document the `[skip odoo]` directive")).toBe(false);
+	});
+});
+
+describe("parseDuration", () => {
+	it("parses compact and spaced durations into hours", () => {
+		expect(parseDuration("1h30m")).toEqual({ hours: 1.5, rest: "" });
+		expect(parseDuration("1w 2d 3h 15m")).toEqual({ hours: 40 + 16 + 3 + 0.25, rest: "" });
+	});
+
+	it("returns the remaining text as description", () => {
+		expect(parseDuration("45m Investigated login bug")).toEqual({
+			hours: 0.75,
+			rest: "Investigated login bug",
+		});
+	});
+
+	it("accepts decimals", () => {
+		expect(parseDuration("1.5h")).toEqual({ hours: 1.5, rest: "" });
+	});
+
+	it("returns null without a duration", () => {
+		expect(parseDuration("soon")).toBeNull();
+		expect(parseDuration("2hours")).toBeNull();
+	});
+});
+
+describe("parseSmartCommands", () => {
+	it("parses a #time command after a task key", () => {
+		const result = parseSmartCommands("ODP-123 #time 1h30m Investigated login bug");
+		expect(result).toEqual([
+			{
+				name: "time",
+				args: "1h30m Investigated login bug",
+				refs: [{ action: "ref", taskId: 123, prefix: "ODP" }],
+			},
+		]);
+	});
+
+	it("applies commands to every key before them on the line", () => {
+		const result = parseSmartCommands("Fix header\n\nWEB-1 WEB-2 #time 2h", {
+			prefixes: { WEB: 7 },
+		});
+		expect(result).toEqual([
+			{
+				name: "time",
+				args: "2h",
+				refs: [
+					{ action: "ref", taskId: 1, prefix: "WEB", projectId: 7 },
+					{ action: "ref", taskId: 2, prefix: "WEB", projectId: 7 },
+				],
+			},
+		]);
+	});
+
+	it("ignores unknown hashtags and commands without a key", () => {
+		expect(parseSmartCommands("ODP-1 #wip\n#time 1h")).toEqual([]);
+	});
+
+	it("ignores commands in code blocks", () => {
+		expect(parseSmartCommands("```\nODP-1 #time 1h\n```")).toEqual([]);
 	});
 });
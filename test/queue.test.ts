@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest";
+import {
+	handleMergeGroupEvent,
+	type MergeGroupEvent,
+	parseQueuedPullRequest,
+} from "../src/github/queue.js";
+import { createMockOdooClient, githubConfig, spyOnFetch } from "./helpers.js";
+
+const group = (
+	overrides: Partial<MergeGroupEvent["merge_group"]> = {},
+): MergeGroupEvent["merge_group"] => ({
+	head_sha: "abc1234567890",
+	head_ref: "refs/heads/gh-readonly-queue/main/pr-42-def4567890abcdef",
+	base_ref: "refs/heads/main",
+	head_commit: { message: "Merge pull request #42 from owner/feature/login" },
+	...overrides,
+});
+
+describe("parseQueuedPullRequest", () => {
+	it("reads the PR number from the queue branch", () => {
+		expect(parseQueuedPullRequest(group())).toBe(42);
+	});
+
+	it("falls back to the head commit title", () => {
+		expect(parseQueuedPullRequest(group({ head_ref: "refs/heads/queue" }))).toBe(42);
+		expect(
+			parseQueuedPullRequest(
+				group({ head_ref: "refs/heads/queue", head_commit: { message: "Add login (#7)\n\nBody" } }),
+			),
+		).toBe(7);
+		expect(
+			parseQueuedPullRequest(group({ head_ref: "refs/heads/queue", head_commit: null })),
+		).toBeNull();
+	});
+});
+
+describe("handleMergeGroupEvent", () => {
+	const baseGroupEvent: MergeGroupEvent = {
+		action: "checks_requested",
+		merge_group: group(),
+		repository: {
+			full_name: "owner/repo",
+			html_url: "https://github.com/owner/repo",
+		},
+	};
+
+	function mockPullRequest(title = "Add login") {
+		return spyOnFetch().mockResolvedValue(
+			new Response(
+				JSON.stringify({
+					number: 42,
+					title,
+					body: "Closes ODP-1\nPart of ODP-2",
+					html_url: "https://github.com/owner/repo/pull/42",
+					state: "open",
+					merged_at: null,
+					head: { ref: "feature/login" },
+				}),
+			),
+		);
+	}
+
+	it("notes the queued PR on every task it references", async () => {
+		const fetchSpy = mockPullRequest();
+		const odoo = createMockOdooClient();
+
+		const result = await handleMergeGroupEvent(baseGroupEvent, odoo, githubConfig);
+
+		expect(fetchSpy).toHaveBeenCalledWith(
+			"https://api.github.com/repos/owner/repo/pulls/42",
+			expect.anything(),
+		);
+		expect(result).toEqual({ processed: 2, errors: [] });
+		expect(odoo.addMessage).toHaveBeenCalledWith(
+			1,
+			expect.stringContaining(
+				'PR <a href="https://github.com/owner/repo/pull/42">#42</a> queued for merge into main',
+			),
+		);
+		expect(odoo.addMessage).toHaveBeenCalledWith(2, expect.any(String));
+		expect(odoo.setStage).not.toHaveBeenCalled();
+	});
+
+	it("notes PRs dropped from the queue", async () => {
+		mockPullRequest();
+		const odoo = createMockOdooClient();
+
+		await handleMergeGroupEvent(
+			{ ...baseGroupEvent, action: "destroyed", reason: "dequeued" },
+			odoo,
+			githubConfig,
+		);
+
+		expect(odoo.addMessage).toHaveBeenCalledWith(
+			1,
+			expect.stringContaining(
+				'❌ PR <a href="https://github.com/owner/repo/pull/42">#42</a> left the merge queue without merging into main',
+			),
+		);
+	});
+
+	it("skips PRs with a [skip odoo] directive in the title", async () => {
+		mockPullRequest("Add login [skip odoo]");
+		const odoo = createMockOdooClient();
+
+		const result = await handleMergeGroupEvent(baseGroupEvent, odoo, githubConfig);
+
+		expect(result).toEqual({ processed: 0, errors: [] });
+		expect(odoo.addMessage).not.toHaveBeenCalled();
+	});
+
+	it("ignores merged and invalidated groups", async () => {
+		const fetchSpy = spyOnFetch();
+		const odoo = createMockOdooClient();
+
+		await handleMergeGroupEvent(
+			{ ...baseGroupEvent, action: "destroyed", reason: "merged" },
+			odoo,
+			githubConfig,
+		);
+		await handleMergeGroupEvent(
+			{ ...baseGroupEvent, action: "destroyed", reason: "invalidated" },
+			odoo,
+			githubConfig,
+		);
+
+		expect(fetchSpy).not.toHaveBeenCalled();
+		expect(odoo.addMessage).not.toHaveBeenCalled();
+	});
+
+	it("reports a missing token and GitHub failures", async () => {
+		const odoo = createMockOdooClient();
+
+		const withoutToken = await handleMergeGroupEvent(baseGroupEvent, odoo, null);
+		expect(withoutToken.errors).toEqual(["PR #42: GITHUB_TOKEN required to read the queued PR"]);
+
+		spyOnFetch().mockResolvedValue(new Response("Not Found", { status: 404 }));
+		const failed = await handleMergeGroupEvent(baseGroupEvent, odoo, githubConfig);
+		expect(failed.errors).toEqual(["GitHub PR lookup failed: GitHub API error: 404 Not Found"]);
+	});
+});
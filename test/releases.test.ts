@@ -0,0 +1,156 @@
+import { describe, expect, it, vi } from "vitest";
+import { handleReleaseEvent, type ReleaseEvent } from "../src/github/releases.js";
+import type { OdooClient } from "../src/odoo/client.js";
+import { createMockOdooClient, githubCommit, githubConfig, spyOnFetch } from "./helpers.js";
+
+// Done tasks, ODP-3 in another project than the rest
+const createOdooClient = (): OdooClient =>
+	createMockOdooClient({ stages: { done: 5, released: "Released" } }, (ref) => ({
+		stage_id: [5, "Done"],
+		project_id: ref.taskId === 3 ? [8, "Mobile"] : [7, "Web"],
+	}));
+
+const release = (tag: string, publishedAt: string, prerelease = false) => ({
+	tag_name: tag,
+	name: tag,
+	html_url: `https://github.com/owner/repo/releases/tag/${tag}`,
+	draft: false,
+	prerelease,
+	published_at: publishedAt,
+});
+
+describe("handleReleaseEvent", () => {
+	const baseReleaseEvent: ReleaseEvent = {
+		action: "published",
+		release: {
+			...release("v2.3.0", "2026-03-01T10:00:00Z"),
+			target_commitish: "main",
+			author: { login: "releaser" },
+		},
+		repository: {
+			full_name: "owner/repo",
+			html_url: "https://github.com/owner/repo",
+		},
+	};
+
+	const releases = [
+		release("v2.3.0", "2026-03-01T10:00:00Z"),
+		release("v2.3.0-rc.1", "2026-02-20T10:00:00Z", true),
+		release("v2.2.0", "2026-02-01T10:00:00Z"),
+		release("v2.1.0", "2026-01-01T10:00:00Z"),
+	];
+
+	function mockGitHub(commits: ReturnType<typeof githubCommit>[]) {
+		return spyOnFetch().mockImplementation(async (input: RequestInfo | URL) => {
+			const url = String(input);
+			if (url.includes("/releases")) {
+				return new Response(JSON.stringify(releases));
+			}
+			return new Response(JSON.stringify({ commits }));
+		});
+	}
+
+	it("notes the release on every task referenced since the previous release", async () => {
+		const fetchSpy = mockGitHub([
+			githubCommit("a1", "Fix login\n\nCloses ODP-1"),
+			githubCommit("a2", "Part of ODP-2"),
+			githubCommit("a3", "Also ODP-1"),
+			githubCommit("m1", "Merge branch 'main' into ODP-9-wip", 2),
+		]);
+		const odoo = createOdooClient();
+
+		const result = await handleReleaseEvent(baseReleaseEvent, odoo, githubConfig);
+
+		expect(fetchSpy).toHaveBeenCalledWith(
+			"https://api.github.com/repos/owner/repo/compare/v2.2.0...v2.3.0?per_page=100",
+			expect.anything(),
+		);
+		expect(result).toEqual({ processed: 2, errors: [] });
+		expect(odoo.addMessage).toHaveBeenCalledTimes(2);
+		const [taskId, message, author] = vi.mocked(odoo.addMessage).mock.calls[0];
+		expect(taskId).toBe(1);
+		expect(message).toContain(
+			'Released in <a href="https://github.com/owner/repo/releases/tag/v2.3.0">v2.3.0</a>',
+		);
+		expect(author).toBe("releaser");
+	});
+
+	it("moves closed tasks to the released stage, one write per project", async () => {
+		mockGitHub([
+			githubCommit("a1", "Closes ODP-1"),
+			githubCommit("a2", "Fixes ODP-2"),
+			githubCommit("a3", "Fixes ODP-3"),
+			githubCommit("a4", "Part of ODP-4"),
+		]);
+		const odoo = createOdooClient();
+
+		await handleReleaseEvent(baseReleaseEvent, odoo, githubConfig);
+
+		expect(odoo.setStages).toHaveBeenCalledTimes(2);
+		expect(odoo.setStages).toHaveBeenCalledWith([1, 2], "Released", 7);
+		expect(odoo.setStages).toHaveBeenCalledWith([3], "Released", 8);
+	});
+
+	it("compares pre-releases with the previous release of any kind", async () => {
+		const fetchSpy = mockGitHub([githubCommit("a1", "Closes ODP-1")]);
+		const odoo = createOdooClient();
+
+		await handleReleaseEvent(
+			{
+				...baseReleaseEvent,
+				release: {
+					...baseReleaseEvent.release,
+					...release("v2.4.0-rc.1", "2026-03-10T10:00:00Z", true),
+				},
+			},
+			odoo,
+			githubConfig,
+		);
+
+		expect(fetchSpy).toHaveBeenCalledWith(
+			"https://api.github.com/repos/owner/repo/compare/v2.3.0...v2.4.0-rc.1?per_page=100",
+			expect.anything(),
+		);
+		expect(vi.mocked(odoo.addMessage).mock.calls[0][1]).toContain("(pre-release)");
+		expect(odoo.setStages).not.toHaveBeenCalled();
+	});
+
+	it("does nothing for the first release", async () => {
+		const fetchSpy = spyOnFetch().mockResolvedValue(new Response(JSON.stringify([releases[3]])));
+		const odoo = createOdooClient();
+
+		const result = await handleReleaseEvent(
+			{
+				...baseReleaseEvent,
+				release: { ...baseReleaseEvent.release, ...releases[3] },
+			},
+			odoo,
+			githubConfig,
+		);
+
+		expect(result).toEqual({ processed: 0, errors: [] });
+		expect(fetchSpy).toHaveBeenCalledTimes(1);
+		expect(odoo.findTask).not.toHaveBeenCalled();
+	});
+
+	it("ignores other actions and reports a missing token", async () => {
+		const odoo = createOdooClient();
+
+		expect(
+			await handleReleaseEvent({ ...baseReleaseEvent, action: "created" }, odoo, githubConfig),
+		).toEqual({ processed: 0, errors: [] });
+		const result = await handleReleaseEvent(baseReleaseEvent, odoo, null);
+
+		expect(result.errors).toEqual(["Release v2.3.0: GITHUB_TOKEN required to list its commits"]);
+		expect(odoo.findTask).not.toHaveBeenCalled();
+	});
+
+	it("records GitHub failures", async () => {
+		spyOnFetch().mockResolvedValue(new Response("Not Found", { status: 404 }));
+		const odoo = createOdooClient();
+
+		const result = await handleReleaseEvent(baseReleaseEvent, odoo, githubConfig);
+
+		expect(result.errors).toEqual(["GitHub compare failed: GitHub API error: 404 Not Found"]);
+	});
+});
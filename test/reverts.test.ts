@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { parseRevert, parseRevertedTitle } from "../src/parser/reverts.js";
+
+describe("parseRevertedTitle", () => {
+	it("returns the quoted title of a revert", () => {
+		expect(parseRevertedTitle('Revert "Fix login ODP-5"')).toBe("Fix login ODP-5");
+		expect(parseRevertedTitle('Revert "Revert "Fix login""')).toBe('Revert "Fix login"');
+	});
+
+	it("accepts the PR number of a squash-merged revert", () => {
+		expect(parseRevertedTitle('Revert "Fix ODP-1 (#12)" (#13)')).toBe("Fix ODP-1 (#12)");
+	});
+
+	it("returns null for other titles", () => {
+		expect(parseRevertedTitle("Revert login changes")).toBeNull();
+		expect(parseRevertedTitle('Fix "Revert" button')).toBeNull();
+	});
+});
+
+describe("parseRevert", () => {
+	it("parses git revert messages", () => {
+		expect(
+			parseRevert(
+				'Revert "Fix login ODP-5"',
+				"\nThis reverts commit 0123456789abcdef0123456789abcdef01234567.",
+			),
+		).toEqual({
+			sha: "0123456789abcdef0123456789abcdef01234567",
+			title: "Fix login ODP-5",
+			pullRequest: undefined,
+		});
+	});
+
+	it("parses reverts of merge commits", () => {
+		expect(
+			parseRevert("Undo login", "This reverts commit abc1234, reversing\nchanges made to def5678."),
+		).toEqual({ sha: "abc1234", title: undefined, pullRequest: undefined });
+	});
+
+	it("parses GitHub revert pull requests", () => {
+		expect(parseRevert('Revert "Add login form"', "Reverts owner/repo#42")).toEqual({
+			sha: undefined,
+			title: "Add login form",
+			pullRequest: 42,
+		});
+		expect(parseRevert("Back out login", "Reverts #42")?.pullRequest).toBe(42);
+	});
+
+	it("returns null for other changes", () => {
+		expect(parseRevert("Fix login ODP-5", "Closes ODP-5")).toBeNull();
+		expect(parseRevert("Docs", "Explain how this reverts commit abc1234")).toBeNull();
+	});
+});
@@ -0,0 +1,175 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+	handlePullRequestReviewEvent,
+	type PullRequestReviewEvent,
+} from "../src/github/reviews.js";
+import type { OdooClient } from "../src/odoo/client.js";
+import { createMockOdooClient } from "./helpers.js";
+
+const createOdooClient = (overrides: Partial<OdooClient> = {}): OdooClient =>
+	createMockOdooClient({ stages: { done: 5, inProgress: 2, inReview: 3 }, ...overrides });
+
+describe("handlePullRequestReviewEvent", () => {
+	const baseReviewEvent: PullRequestReviewEvent = {
+		action: "submitted",
+		review: {
+			state: "approved",
+			body: "",
+			html_url: "https://github.com/owner/repo/pull/42#pullrequestreview-1",
+			user: { login: "reviewer" },
+		},
+		pull_request: {
+			number: 42,
+			title: "Add feature ODP-123",
+			body: "Also related to ODP-456",
+			html_url: "https://github.com/owner/repo/pull/42",
+			state: "open",
+			draft: false,
+			head: { ref: "feature/test" },
+			base: { ref: "main" },
+		},
+		repository: {
+			owner: { login: "owner" },
+			name: "repo",
+			full_name: "owner/repo",
+		},
+	};
+
+	it("posts the review outcome on every referenced task", async () => {
+		const odoo = createOdooClient();
+
+		const result = await handlePullRequestReviewEvent(baseReviewEvent, odoo);
+
+		expect(result.processed).toBe(2);
+		expect(result.errors).toHaveLength(0);
+		const [taskId, message, author] = vi.mocked(odoo.addMessage).mock.calls[0];
+		expect(taskId).toBe(123);
+		expect(message).toContain('<a href="https://github.com/owner/repo/pull/42">#42</a>');
+		expect(message).toContain(
+			'<a href="https://github.com/owner/repo/pull/42#pullrequestreview-1">✅ approved</a>',
+		);
+		expect(message).toContain('<a href="https://github.com/reviewer">@reviewer</a>');
+		expect(author).toBe("reviewer");
+		expect(odoo.addMessage).toHaveBeenCalledWith(456, expect.any(String), "reviewer");
+	});
+
+	it("moves tasks to the in-review stage when configured", async () => {
+		const odoo = createOdooClient();
+
+		await handlePullRequestReviewEvent(
+			{ ...baseReviewEvent, review: { ...baseReviewEvent.review, state: "changes_requested" } },
+			odoo,
+		);
+
+		expect(odoo.addMessage).toHaveBeenCalledWith(
+			123,
+			expect.stringContaining("changes requested"),
+			"reviewer",
+		);
+		expect(odoo.setStage).toHaveBeenCalledWith(123, 3, null);
+		expect(odoo.setStage).toHaveBeenCalledWith(456, 3, null);
+	});
+
+	it("leaves the stage alone without an in-review stage or on closed PRs", async () => {
+		const unconfigured = createOdooClient({ stages: { done: 5 } });
+		await handlePullRequestReviewEvent(baseReviewEvent, unconfigured);
+		expect(unconfigured.addMessage).toHaveBeenCalled();
+		expect(unconfigured.setStage).not.toHaveBeenCalled();
+
+		const closed = createOdooClient();
+		await handlePullRequestReviewEvent(
+			{ ...baseReviewEvent, pull_request: { ...baseReviewEvent.pull_request, state: "closed" } },
+			closed,
+		);
+		expect(closed.addMessage).toHaveBeenCalled();
+		expect(closed.setStage).not.toHaveBeenCalled();
+	});
+
+	it("notes commented reviews with a body but ignores empty ones", async () => {
+		const odoo = createOdooClient();
+		const commented = { ...baseReviewEvent.review, state: "commented", body: "Looks close" };
+
+		await handlePullRequestReviewEvent({ ...baseReviewEvent, review: commented }, odoo);
+		expect(odoo.addMessage).toHaveBeenCalledWith(
+			123,
+			expect.stringContaining("💬 commented"),
+			"reviewer",
+		);
+
+		const empty = createOdooClient();
+		const result = await handlePullRequestReviewEvent(
+			{ ...baseReviewEvent, review: { ...commented, body: null } },
+			empty,
+		);
+		expect(result.processed).toBe(0);
+		expect(empty.addMessage).not.toHaveBeenCalled();
+	});
+
+	it("notes dismissed reviews without changing the stage", async () => {
+		const odoo = createOdooClient();
+
+		await handlePullRequestReviewEvent(
+			{
+				...baseReviewEvent,
+				action: "dismissed",
+				review: { ...baseReviewEvent.review, state: "dismissed" },
+			},
+			odoo,
+		);
+
+		expect(odoo.addMessage).toHaveBeenCalledWith(
+			123,
+			expect.stringContaining("review dismissed"),
+			"reviewer",
+		);
+		expect(odoo.setStage).not.toHaveBeenCalled();
+	});
+
+	it("ignores edited reviews and PRs without references", async () => {
+		const odoo = createOdooClient();
+
+		await handlePullRequestReviewEvent({ ...baseReviewEvent, action: "edited" }, odoo);
+		await handlePullRequestReviewEvent(
+			{
+				...baseReviewEvent,
+				pull_request: { ...baseReviewEvent.pull_request, title: "Refactor", body: null },
+			},
+			odoo,
+		);
+
+		expect(odoo.findTask).not.toHaveBeenCalled();
+	});
+
+	it("skips PRs with a [skip odoo] directive in the title", async () => {
+		const odoo = createOdooClient();
+
+		const result = await handlePullRequestReviewEvent(
+			{
+				...baseReviewEvent,
+				pull_request: { ...baseReviewEvent.pull_request, title: "WIP ODP-7 [skip odoo]" },
+			},
+			odoo,
+		);
+
+		expect(result.processed).toBe(0);
+		expect(odoo.addMessage).not.toHaveBeenCalled();
+		expect(odoo.setStage).not.toHaveBeenCalled();
+	});
+
+	it("prefers the reviewer email when GitHub includes it", async () => {
+		const odoo = createOdooClient();
+
+		await handlePullRequestReviewEvent(
+			{
+				...baseReviewEvent,
+				review: {
+					...baseReviewEvent.review,
+					user: { login: "reviewer", email: "reviewer@example.com" },
+				},
+			},
+			odoo,
+		);
+
+		expect(odoo.addMessage).toHaveBeenCalledWith(123, expect.any(String), "reviewer@example.com");
+	});
+});
@@ -0,0 +1,204 @@
+import { describe, expect, it } from "vitest";
+import {
+	defaultStageRules,
+	findStageRule,
+	matchesGlob,
+	parseStageRules,
+	type StageEventFacts,
+	type StageRule,
+} from "../src/odoo/rules.js";
+
+const mergedPR: StageEventFacts = {
+	event: "pull_request",
+	action: "closed",
+	merged: true,
+	draft: false,
+	branch: "main",
+	labels: ["needs-qa"],
+	repository: "owner/repo",
+};
+
+describe("matchesGlob", () => {
+	it("matches single segments with * and any path with **", () => {
+		expect(matchesGlob("release/1.2", "release/*")).toBe(true);
+		expect(matchesGlob("release/1.2/hotfix", "release/*")).toBe(false);
+		expect(matchesGlob("release/1.2/hotfix", "release/**")).toBe(true);
+		expect(matchesGlob("main", ["develop", "main"])).toBe(true);
+		expect(matchesGlob("mainline", "main")).toBe(false);
+	});
+
+	it("treats regex characters literally", () => {
+		expect(matchesGlob("v1.2", "v1.2")).toBe(true);
+		expect(matchesGlob("v1x2", "v1.2")).toBe(false);
+	});
+});
+
+describe("findStageRule", () => {
+	const rules: StageRule[] = [
+		{ name: "qa", when: { event: "pull_request", merged: true, labels: "needs-qa" }, stage: "QA" },
+		{
+			name: "staging",
+			when: { event: "push", branch: "staging", refAction: ["close", "part"] },
+			stage: { "7": "Staging", "*": null },
+		},
+		{
+			name: "done",
+			when: { event: ["pull_request", "push"], refAction: "close", repository: "owner/*" },
+			stage: "Done",
+		},
+	];
+
+	it("returns the first matching rule", () => {
+		expect(findStageRule(rules, mergedPR, "close", null)).toEqual({
+			rule: rules[0],
+			stage: "QA",
+		});
+		expect(findStageRule(rules, { ...mergedPR, labels: [] }, "close", null)?.stage).toBe("Done");
+	});
+
+	it("checks the reference action and repository", () => {
+		const noLabels = { ...mergedPR, labels: [] };
+		expect(findStageRule(rules, noLabels, "ref", null)).toBeNull();
+		expect(
+			findStageRule(rules, { ...noLabels, repository: "other/repo" }, "close", null),
+		).toBeNull();
+	});
+
+	it("resolves per-project targets and stops at a null target", () => {
+		const push: StageEventFacts = { event: "push", branch: "staging", repository: "owner/repo" };
+		expect(findStageRule(rules, push, "part", 7)?.stage).toBe("Staging");
+		// The staging rule matched without a stage for the project, later rules are not consulted
+		expect(findStageRule(rules, push, "close", 8)).toBeNull();
+	});
+
+	it("treats missing facts as not matching", () => {
+		const rule: StageRule = { when: { action: "opened", branch: "main" }, stage: 1 };
+		expect(
+			findStageRule([rule], { event: "push", repository: "owner/repo" }, "ref", null),
+		).toBeNull();
+	});
+});
+
+describe("defaultStageRules", () => {
+	const facts = (overrides: Partial<StageEventFacts>): StageEventFacts => ({
+		...mergedPR,
+		...overrides,
+	});
+
+	it("reproduces the built-in transitions", () => {
+		const rules = defaultStageRules({ done: 5, inProgress: 2, canceled: 6, inReview: 3 });
+
+		expect(findStageRule(rules, facts({}), "close", null)?.stage).toBe(5);
+		expect(findStageRule(rules, facts({}), "ref", null)).toBeNull();
+		expect(findStageRule(rules, facts({ merged: false }), "ref", null)?.stage).toBe(6);
+		expect(
+			findStageRule(rules, facts({ action: "opened", merged: false }), "ref", null)?.stage,
+		).toBe(2);
+		expect(
+			findStageRule(rules, facts({ action: "opened", merged: false, draft: true }), "ref", null),
+		).toBeNull();
+		expect(findStageRule(rules, facts({ action: "ready_for_review" }), "ref", null)?.stage).toBe(2);
+		expect(
+			findStageRule(rules, { event: "push", repository: "owner/repo" }, "close", null)?.stage,
+		).toBe(5);
+		expect(
+			findStageRule(
+				rules,
+				{ event: "pull_request_review", action: "submitted", repository: "owner/repo" },
+				"ref",
+				null,
+			)?.stage,
+		).toBe(3);
+	});
+
+	it("moves closed tasks shipped in a stable release", () => {
+		const rules = defaultStageRules({ done: 5, released: "Released" });
+		const release: StageEventFacts = { event: "release", prerelease: false, repository: "o/r" };
+
+		expect(findStageRule(rules, release, "close", null)?.stage).toBe("Released");
+		expect(findStageRule(rules, release, "part", null)).toBeNull();
+		expect(findStageRule(rules, { ...release, prerelease: true }, "close", null)).toBeNull();
+	});
+
+	it("moves closed tasks per deployment environment", () => {
+		const rules = defaultStageRules({ done: 5, deployed: { staging: "QA", production: 9 } });
+		const deployment = (environment: string): StageEventFacts => ({
+			event: "deployment",
+			environment,
+			repository: "o/r",
+		});
+
+		expect(findStageRule(rules, deployment("staging"), "close", null)?.stage).toBe("QA");
+		expect(findStageRule(rules, deployment("production"), "close", null)?.stage).toBe(9);
+		expect(findStageRule(rules, deployment("production"), "ref", null)).toBeNull();
+		expect(findStageRule(rules, deployment("preview"), "close", null)).toBeNull();
+	});
+
+	it("moves PRs converted to draft when a draft stage is configured", () => {
+		const rules = defaultStageRules({ done: 5, inProgress: 2, draft: 8 });
+		const pr = (action: string, draft: boolean) => facts({ action, merged: false, draft });
+
+		expect(findStageRule(rules, pr("converted_to_draft", true), "ref", null)?.stage).toBe(8);
+		expect(findStageRule(rules, pr("opened", true), "ref", null)).toBeNull();
+		expect(findStageRule(rules, pr("opened", false), "ref", null)?.stage).toBe(2);
+	});
+
+	it("treats drafts as a separate phase", () => {
+		const rules = defaultStageRules(
+			{ done: 5, inProgress: "In Development", inReview: "In Review" },
+			{ draftPhase: true },
+		);
+		const pr = (action: string, draft: boolean) => facts({ action, merged: false, draft });
+
+		expect(findStageRule(rules, pr("opened", true), "ref", null)?.stage).toBe("In Development");
+		expect(findStageRule(rules, pr("converted_to_draft", true), "ref", null)?.stage).toBe(
+			"In Development",
+		);
+		expect(findStageRule(rules, pr("opened", false), "ref", null)?.stage).toBe("In Review");
+		expect(findStageRule(rules, pr("ready_for_review", false), "ref", null)?.stage).toBe(
+			"In Review",
+		);
+	});
+
+	it("leaves out transitions for unconfigured stages", () => {
+		const rules = defaultStageRules({ done: "Done" });
+		expect(rules.map((rule) => rule.name)).toEqual([
+			"merged PR closes task",
+			"pushed commit closes task",
+		]);
+	});
+});
+
+describe("parseStageRules", () => {
+	it("accepts valid rules", () => {
+		const rules = parseStageRules([
+			{ name: "qa", when: { event: "pull_request", labels: ["qa"], merged: true }, stage: "QA" },
+			{ when: { refAction: "close" }, stage: { "7": 12, "*": "Done" } },
+			{ when: { event: "push" }, stage: null },
+			{ stage: "Done" },
+			{ when: { event: "pull_request" }, stage: 2, allowBackward: true },
+		]);
+
+		expect(rules).toHaveLength(5);
+		expect(rules[4].allowBackward).toBe(true);
+		expect(rules[3]).toEqual({ when: {}, stage: "Done" });
+	});
+
+	it.each([
+		[{}, "Stage rules must be a JSON array"],
+		[["Done"], "rule #1: must be an object"],
+		[[{ when: {} }], "rule #1: missing stage"],
+		[[{ when: { event: "issue" }, stage: 1 }], "rule #1: event must be one or more of"],
+		[[{ when: { refAction: ["close", "done"] }, stage: 1 }], "refAction must be one or more of"],
+		[[{ name: "x", when: { merged: "yes" }, stage: 1 }], 'rule "x": merged must be true or false'],
+		[[{ when: { branches: "main" }, stage: 1 }], 'unknown condition "branches"'],
+		[[{ when: { labels: [] }, stage: 1 }], "labels must be a string or a list of strings"],
+		[[{ when: {}, stage: 1, target: 2 }], 'unknown field "target"'],
+		[[{ when: {}, stage: 1, allowBackward: "yes" }], "allowBackward must be true or false"],
+		[[{ when: {}, stage: 0 }], "stage must be a stage ID, name, null or project map"],
+		[[{ when: {}, stage: { web: "Done" } }], 'project key must be a project ID or "*"'],
+		[[{ when: {}, stage: { "7": "" } }], "invalid stage for project 7"],
+	])("rejects %j", (value, message) => {
+		expect(() => parseStageRules(value)).toThrow(message);
+	});
+});
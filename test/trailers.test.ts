@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { splitTrailers } from "../src/parser/trailers.js";
+
+describe("splitTrailers", () => {
+	it("splits the trailer block from the body", () => {
+		const result = splitTrailers(
+			"Explain the change.\n\nOdoo-Task: ODP-55\nSigned-off-by: Dev <d@x>",
+		);
+		expect(result).toEqual({
+			body: "Explain the change.",
+			trailers: [
+				{ token: "Odoo-Task", value: "ODP-55" },
+				{ token: "Signed-off-by", value: "Dev <d@x>" },
+			],
+		});
+	});
+
+	it("joins continuation lines onto the previous trailer", () => {
+		const result = splitTrailers("Closes: ODP-1,\n  ODP-2");
+		expect(result.trailers).toEqual([{ token: "Closes", value: "ODP-1, ODP-2" }]);
+	});
+
+	it("keeps paragraphs that mix prose and trailer-like lines", () => {
+		const result = splitTrailers("Some prose\nCloses: ODP-1");
+		expect(result).toEqual({ body: "Some prose\nCloses: ODP-1", trailers: [] });
+	});
+
+	it("collects trailer paragraphs of squashed sub-commits", () => {
+		const result = splitTrailers("* Fix A\n\nCloses: ODP-1\n\n* Fix B\n\nOdoo-Task: ODP-2");
+		expect(result).toEqual({
+			body: "* Fix A\n\n* Fix B",
+			trailers: [
+				{ token: "Closes", value: "ODP-1" },
+				{ token: "Odoo-Task", value: "ODP-2" },
+			],
+		});
+	});
+
+	it("leaves unrecognized trailers in the body", () => {
+		const result = splitTrailers("Note: see ODP-3\nCloses: ODP-1", (t) => t.token === "Closes");
+		expect(result).toEqual({
+			body: "Note: see ODP-3",
+			trailers: [{ token: "Closes", value: "ODP-1" }],
+		});
+	});
+});